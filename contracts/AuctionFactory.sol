@@ -1,11 +1,26 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import "./PrivateDutchAuction.sol";
 import "./PrivateSinglePriceAuction.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "fhevm-contracts/contracts/token/ERC20/IConfidentialERC20.sol";
+import "fhevm/lib/TFHE.sol";
+import "fhevm/config/ZamaFHEVMConfig.sol";
 
-contract AuctionFactory {
+contract AuctionFactory is SepoliaZamaFHEVMConfig {
+    address public auctionImplementation; // PrivateSinglePriceAuction cloned by createAuction
+    address public dutchAuctionImplementation; // PrivateDutchAuction cloned by createDutchAuction
     address[] public allAuctions;
+    mapping(address => address[]) public auctionsByOwner; // Auctions created by each owner, in creation order
+    mapping(address => address[]) public auctionsByAsset; // Auctions selling each asset
+    mapping(address => address[]) public auctionsByPaymentToken; // Auctions paid in each token, address(0) for Ether
+    address public guardian; // Can cancel any auction of the factory before its settlement
+    // Delay given to the Gateway after the last decryption deadline before a settlement can be abandoned
+    uint256 public decryptionGracePeriod = 1 days;
 
     event AuctionCreated(
         address auctionAddress,
@@ -15,40 +30,237 @@ contract AuctionFactory {
         uint256 quantity,
         uint256 endTime
     );
+    event GuardianChanged(address indexed previousGuardian, address indexed newGuardian);
 
+    modifier onlyGuardian() {
+        require(msg.sender == guardian, "Caller is not the guardian");
+        _;
+    }
+
+    /// @notice Auctions are EIP-1167 clones of implementations deployed beforehand, see their initialize functions
+    constructor(address _auctionImplementation, address _dutchAuctionImplementation) {
+        auctionImplementation = _auctionImplementation;
+        dutchAuctionImplementation = _dutchAuctionImplementation;
+        guardian = msg.sender;
+        emit GuardianChanged(address(0), msg.sender);
+    }
+
+    /// @notice Deploys an auction of `_config.quantity` asset owned by the caller, which must have approved the factory
+    /// @param _reservePrice Encrypted minimum clearing price, ignored when the proof is empty
     function createAuction(
-        address _asset, // ERC20 token being sold
-        address _paymentToken, // Ether (address(0)) or ERC20 token used for payment
-        uint256 _quantity,
-        uint256 _duration,
-        uint256 _maxParticipant
+        PrivateSinglePriceAuction.Config calldata _config,
+        einput _reservePrice,
+        bytes calldata _inputProof
     ) external {
-        require(_quantity > 0, "Quantity must be greater than zero");
-        require(_duration > 0, "Duration must be positive");
+        require(_config.quantity > 0, "Quantity must be greater than zero");
+        // The auction ends after it starts
+        require(_config.duration > 0, "Duration must be positive");
+        require(_config.startTime == 0 || _config.startTime >= block.timestamp, "Start time is in the past");
+        require(
+            _config.extensionWindow == 0 || (_config.extensionDuration > 0 && _config.maxExtension > 0),
+            "Extension needs a duration and a cap"
+        );
 
-        if (_paymentToken != address(0)) {
+        require(
+            !_config.confidentialPayment || _config.paymentToken != address(0),
+            "Confidential payment needs a token"
+        );
+        // Encrypted allocations are paid from encrypted locked funds, and computed on the encrypted bids so that only
+        // the clearing price is decrypted
+        require(
+            !_config.confidentialAsset || _config.confidentialPayment,
+            "Confidential asset needs a confidential payment"
+        );
+        require(
+            !_config.confidentialAsset || _config.homomorphicClearing,
+            "Confidential asset needs homomorphic clearing"
+        );
+        // Homomorphic clearing fills the ties in the bidding order
+        require(
+            !_config.homomorphicClearing || _config.tieBreaking == PrivateSinglePriceAuction.TieBreaking.FirstCome,
+            "Homomorphic clearing needs first-come ties"
+        );
+        // The second highest price is computed on the encrypted bids
+        require(
+            _config.pricing != PrivateSinglePriceAuction.Pricing.SecondPrice || _config.homomorphicClearing,
+            "Second price needs homomorphic clearing"
+        );
+        // Homomorphic clearing decrypts the clearing price with each allocation, never the price of a bid
+        require(
+            _config.pricing != PrivateSinglePriceAuction.Pricing.PayAsBid || !_config.homomorphicClearing,
+            "Pay-as-bid needs decrypted bids"
+        );
+        // Encrypted allocations are paid at the decrypted clearing price, no other price is decrypted
+        require(
+            _config.pricing == PrivateSinglePriceAuction.Pricing.Uniform || !_config.confidentialAsset,
+            "Confidential asset needs uniform pricing"
+        );
+        if (_config.paymentToken != address(0)) {
             require(
-                ERC20(_asset).decimals() == ERC20(_paymentToken).decimals(),
+                ERC20(_config.asset).decimals() == ERC20(_config.paymentToken).decimals(),
                 "Asset and payment token must have the same decimals"
             );
         }
 
-        PrivateSinglePriceAuction auction = new PrivateSinglePriceAuction(
+        PrivateSinglePriceAuction auction = PrivateSinglePriceAuction(Clones.clone(auctionImplementation));
+        auction.initialize(msg.sender, _config, decryptionGracePeriod);
+        // Transfer the quantity of asset (ERC20 token) into the contract
+        _register(address(auction), _config.asset, _config.paymentToken);
+
+        if (_inputProof.length > 0) {
+            euint256 reservePrice = TFHE.asEuint256(_reservePrice, _inputProof);
+            TFHE.allowTransient(reservePrice, address(auction));
+            auction.setReservePrice(reservePrice);
+        }
+
+        if (_config.confidentialAsset) {
+            // A failed confidential transfer moves nothing, the auction then sells its actual balance
+            euint64 amount = TFHE.asEuint64(SafeCast.toUint64(_config.quantity));
+            TFHE.allowTransient(amount, _config.asset);
+            IConfidentialERC20(_config.asset).transferFrom(msg.sender, address(auction), amount);
+        } else {
+            require(
+                IERC20(_config.asset).transferFrom(msg.sender, address(auction), _config.quantity),
+                "Asset transfer failed"
+            );
+        }
+        emit AuctionCreated(
+            address(auction),
             msg.sender,
-            _asset,
-            _paymentToken,
-            _quantity,
-            _duration,
-            _maxParticipant
+            _config.asset,
+            _config.paymentToken,
+            _config.quantity,
+            auction.endTime()
         );
-        // Transfer the quantity of asset (ERC20 token) into the contract
-        allAuctions.push(address(auction));
+    }
+
+    /// @notice Deploys a Dutch clock auction of `_config.quantity` asset owned by the caller, which must have approved
+    /// the factory. It is listed with the single-price auctions
+    function createDutchAuction(PrivateDutchAuction.Config calldata _config) external {
+        require(_config.quantity > 0, "Quantity must be greater than zero");
+        require(_config.duration > 0, "Duration must be positive");
+        require(_config.startTime == 0 || _config.startTime >= block.timestamp, "Start time is in the past");
+        // A zero price would fill every bid, the clock must be able to go down
+        require(
+            _config.floorPrice > 0 && _config.startPrice > _config.floorPrice,
+            "Clock must start above a positive floor price"
+        );
+        require(_config.priceStep > 0 && _config.stepDuration > 0, "Clock needs a price step and a step duration");
+        if (_config.paymentToken != address(0)) {
+            require(
+                ERC20(_config.asset).decimals() == ERC20(_config.paymentToken).decimals(),
+                "Asset and payment token must have the same decimals"
+            );
+        }
 
-        require(IERC20(_asset).transferFrom(msg.sender, address(auction), _quantity), "Asset transfer failed");
-        emit AuctionCreated(address(auction), msg.sender, _asset, _paymentToken, _quantity, _duration);
+        PrivateDutchAuction auction = PrivateDutchAuction(Clones.clone(dutchAuctionImplementation));
+        auction.initialize(msg.sender, _config, decryptionGracePeriod);
+        _register(address(auction), _config.asset, _config.paymentToken);
+        require(
+            IERC20(_config.asset).transferFrom(msg.sender, address(auction), _config.quantity),
+            "Asset transfer failed"
+        );
+        emit AuctionCreated(
+            address(auction),
+            msg.sender,
+            _config.asset,
+            _config.paymentToken,
+            _config.quantity,
+            auction.endTime()
+        );
+    }
+
+    /// @notice Emergency unwind of an auction: returns the asset to its owner and lets bidders claim their funds
+    /// @dev Dutch clock auctions share the cancelAuction function
+    function cancelAuction(address _auction) external onlyGuardian {
+        PrivateSinglePriceAuction(_auction).cancelAuction();
+    }
+
+    /// @notice Hand the guardian role over, address(0) renounces it
+    function setGuardian(address _guardian) external onlyGuardian {
+        emit GuardianChanged(guardian, _guardian);
+        guardian = _guardian;
+    }
+
+    /// @notice Set the decryption grace period of the auctions created from now on
+    function setDecryptionGracePeriod(uint256 _decryptionGracePeriod) external onlyGuardian {
+        decryptionGracePeriod = _decryptionGracePeriod;
     }
 
     function getAllAuctions() external view returns (address[] memory) {
         return allAuctions;
     }
+
+    /// @notice Page of the auctions in creation order, with the total number of auctions
+    function getAuctions(uint256 offset, uint256 limit) external view returns (address[] memory, uint256) {
+        return (_page(allAuctions, offset, limit), allAuctions.length);
+    }
+
+    /// @notice Page of the auctions created by `owner`, with their total number
+    function getAuctionsByOwner(
+        address owner,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory, uint256) {
+        return (_page(auctionsByOwner[owner], offset, limit), auctionsByOwner[owner].length);
+    }
+
+    /// @notice Page of the auctions selling `asset`, with their total number
+    function getAuctionsByAsset(
+        address asset,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory, uint256) {
+        return (_page(auctionsByAsset[asset], offset, limit), auctionsByAsset[asset].length);
+    }
+
+    /// @notice Page of the auctions paid in `paymentToken`, address(0) for Ether, with their total number
+    function getAuctionsByPaymentToken(
+        address paymentToken,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory, uint256) {
+        return (
+            _page(auctionsByPaymentToken[paymentToken], offset, limit),
+            auctionsByPaymentToken[paymentToken].length
+        );
+    }
+
+    /// @notice Auctions in `phase` among the `limit` auctions created from `offset`, so that a client can scan the
+    /// registry page by page. The phase is read from each auction, both auction types share the AuctionPhase values
+    function getAuctionsByPhase(
+        PrivateSinglePriceAuction.AuctionPhase phase,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory matches) {
+        address[] memory page = _page(allAuctions, offset, limit);
+        bool[] memory inPhase = new bool[](page.length);
+        uint256 count;
+        for (uint256 i; i < page.length; i++) {
+            inPhase[i] = PrivateSinglePriceAuction(page[i]).getPhase() == phase;
+            if (inPhase[i]) count++;
+        }
+        matches = new address[](count);
+        count = 0;
+        for (uint256 i; i < page.length; i++) {
+            if (inPhase[i]) matches[count++] = page[i];
+        }
+    }
+
+    /// @notice Records a new auction in the registry and its indexes
+    function _register(address auction, address asset, address paymentToken) private {
+        allAuctions.push(auction);
+        auctionsByOwner[msg.sender].push(auction);
+        auctionsByAsset[asset].push(auction);
+        auctionsByPaymentToken[paymentToken].push(auction);
+    }
+
+    /// @notice Copies up to `limit` addresses of `list` from `offset`, an empty array past its end
+    function _page(address[] storage list, uint256 offset, uint256 limit) private view returns (address[] memory page) {
+        if (offset >= list.length) return page;
+        page = new address[](Math.min(limit, list.length - offset));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = list[offset + i];
+        }
+    }
 }
@@ -0,0 +1,502 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "fhevm/lib/TFHE.sol";
+import "fhevm/config/ZamaFHEVMConfig.sol";
+import "fhevm/config/ZamaGatewayConfig.sol";
+import "fhevm/gateway/GatewayCaller.sol";
+import "./libraries/EncryptedFunds.sol";
+
+/// @notice Descending-price (Dutch clock) auction with sealed limit orders: bidders lock funds and place an encrypted
+/// limit price and quantity while the auction is open, then the clock price steps down on a public schedule until the
+/// encrypted demand at the clock price covers the quantity sold. Every winner pays that clock price
+/// @dev Only whether the demand covers the quantity is decrypted at each step of the clock, then the allocation of
+/// each bid. Sibling of PrivateSinglePriceAuction, deployed by AuctionFactory.createDutchAuction
+contract PrivateDutchAuction is
+    SepoliaZamaFHEVMConfig,
+    SepoliaZamaGatewayConfig,
+    GatewayCaller,
+    ReentrancyGuard,
+    Initializable
+{
+    /// @notice Lifecycle of the auction, mirrors PrivateSinglePriceAuction.AuctionPhase. Pending/Open/Closed are
+    /// derived from the timestamps, the clock runs while Closed until the clearing price is found
+    enum AuctionPhase {
+        Pending,
+        Open,
+        Closed,
+        Decrypting,
+        Decrypted,
+        Distributed,
+        Cancelled
+    }
+
+    /// @notice Settings of an auction chosen by its owner, validated by the factory
+    struct Config {
+        address asset; // ERC20 token being sold
+        address paymentToken; // Ether (address(0)) or ERC20 token used for payment
+        uint256 quantity; // Quantity of asset sold
+        uint256 startTime; // Opening time of the bidding, 0 opens it at creation
+        uint256 duration; // Bidding time after the opening, the clock starts at its end
+        uint256 maxParticipant; // Maximum number of bids, one per bidder
+        uint256 startPrice; // Clock price when the bidding ends
+        uint256 priceStep; // Amount the clock price is lowered by at each step
+        uint256 stepDuration; // Time between two steps of the clock
+        uint256 floorPrice; // Lowest clock price, the auction clears there when the demand never covers the quantity
+    }
+
+    struct EncryptedBid {
+        address bidder;
+        euint256 encryptedQuantity; // Encrypted quantity of tokens bid
+        euint256 encryptedPrice; // Encrypted limit price per token
+    }
+
+    address public owner; // Owner of the auction contract
+    address public factory; // Factory that deployed the auction
+    address public asset; // Address of the ERC20 token being auctioned
+    address public paymentToken; // Address of the payment token (0 for Ether)
+    uint256 public quantity; // Total quantity of tokens being auctioned
+    uint256 public startTime; // Start time of the bidding
+    uint256 public endTime; // End time of the bidding and start time of the clock
+    uint256 public maxParticipant; // Maximum number of bids
+    uint256 public startPrice; // Clock price at endTime
+    uint256 public priceStep; // Decrease of the clock price at each step
+    uint256 public stepDuration; // Time between two steps of the clock
+    uint256 public floorPrice; // Lowest clock price
+    uint256 public constant DECRYPTION_TIMEOUT = 2 hours; // Time given to the Gateway to fulfil a decryption request
+    uint256 public decryptionGracePeriod; // Delay after the last decryption deadline before settlement can be abandoned
+    uint256 public decryptionDeadline; // Latest deadline of the decryption requests
+
+    EncryptedBid[] public bids; // List of all encrypted bids, one per bidder
+    mapping(address => bool) public hasParticipated; // Tracks if a user has placed a bid
+    mapping(address => ebool) public bidAccepted; // Whether the locked funds covered the bid of each bidder
+    mapping(address => uint256) public lockedFunds; // Tracks locked funds for each participant
+
+    uint256 public checkPrice; // Clock price of the last demand check
+    uint256 public checkedBids; // Number of bids added to the demand of the check in progress
+    uint256 public checkRequestId; // Decryption request of whether the demand at checkPrice covers the quantity
+    bool public checkPending; // Whether the answer to checkRequestId is awaited
+    uint256 public lastUncoveredPrice; // Last clock price whose demand did not cover the quantity, 0 when none
+    euint256 private demand; // Encrypted quantity bid at or above checkPrice
+    euint256 private uncoveredDemand; // Encrypted quantity bid at or above lastUncoveredPrice
+    bool public cleared; // Whether the clock stopped at the clearing price
+    uint256 public settlementPrice; // Clock price paid by every winner
+    uint256 public fillPrice; // Bids at or above it are filled in full, the others share what is left first-come
+    euint256 private remaining; // Quantity left for the bids sharing the rest of the supply
+
+    uint256[] public requestIds; // Allocation decryption request of each bid
+    mapping(uint256 => bool) public isDecrypted; // Tracks decryption status of the requests
+    uint256[] public allocations; // Decrypted quantity allocated to each bid
+    uint256 public decryptedCount; // Number of allocations decrypted by the Gateway
+    bool public settled; // Indicates whether the allocation of every bid is requested
+    uint256 public distributedBids; // Number of bids whose allocation has been recorded
+    uint256 private totalAllocated; // Quantity allocated to the bids distributed so far
+    mapping(address => uint256) public claimableAsset; // Asset allocated to a winner, waiting to be claimed
+    uint256 public claimableProceeds; // Payments collected for the owner, waiting to be claimed
+    uint256 public unsoldAssets; // Unsold quantity of asset returned to the owner with the proceeds
+    AuctionPhase private phase; // Last phase reached through a transition (see getPhase)
+
+    event AuctionCreated(address indexed asset, address indexed paymentToken, uint256 quantity);
+    event EncryptedBidPlaced(address indexed bidder, euint256 quantity, euint256 price);
+    event BidChecked(address indexed bidder, ebool accepted);
+    event DemandCheckRequested(uint256 indexed requestId, uint256 price);
+    event DemandChecked(uint256 price, bool covered);
+    event ClockStopped(uint256 settlementPrice);
+    event DecryptionRequested(uint256 indexed requestId, address indexed bidder);
+    event DecryptionCompleted(uint256 indexed requestId, address indexed bidder, uint256 quantity);
+    event Claimed(address indexed participant, uint256 assetAmount, uint256 refundAmount);
+    event ProceedsClaimed(address indexed owner, uint256 proceeds, uint256 unsoldAssets);
+    event PhaseChanged(AuctionPhase indexed previousPhase, AuctionPhase indexed newPhase);
+    event AuctionCancelled(address indexed by, uint256 assetReturned);
+
+    error AuctionNotActive(); // Thrown when auction is not in active state
+    error NotOwner(); // Thrown when caller is not the auction owner
+    error InvalidPhase(AuctionPhase expected, AuctionPhase current); // Thrown when a transition is not allowed
+    error ZeroAmount(); // Thrown when attempting to lock zero funds
+    error EtherAmountMismatch(); // Thrown when sent ETH doesn't match specified amount
+    error ERC20TransferFailed(); // Thrown when ERC20 token transfer fails
+    error AlreadyDecrypted(); // Thrown when an allocation is already decrypted
+    error InvalidParams(); // Thrown when decryption parameters are invalid
+    error TransferToOwnerFailed(); // Thrown when transfer to owner fails
+    error EtherRefundFailed(); // Thrown when ETH refund fails
+    error RefundAssetsFailed(); // Thrown when asset refund fails
+    error AlreadyBid(); // Thrown when a bidder places a second bid
+    error TooManyBids(); // Thrown when the auction already holds maxParticipant bids
+    error NothingToClaim(); // Thrown when the caller has nothing left to claim
+    error InvalidBatch(); // Thrown when a batch does not follow the previous one or is empty
+    error ClockNotLowered(); // Thrown when checking the demand at a price the clock has not reached yet
+    error CheckPending(); // Thrown when a demand check is awaited, or the clearing price is not found yet
+    error GracePeriodNotOver(); // Thrown when abandoning the settlement before the decryption grace period is over
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier activeAuction() {
+        _requireActive();
+        _;
+    }
+
+    modifier inPhase(AuctionPhase expected) {
+        _requirePhase(expected);
+        _;
+    }
+
+    /// @notice Locks the implementation, auctions are EIP-1167 clones initialized by the factory
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initialize a clone of the auction, see PrivateSinglePriceAuction.initialize
+    function initialize(address _owner, Config calldata _config, uint256 _decryptionGracePeriod) external initializer {
+        TFHE.setFHEVM(ZamaFHEVMConfig.getSepoliaConfig());
+        Gateway.setGateway(ZamaGatewayConfig.getSepoliaConfig());
+        owner = _owner;
+        factory = msg.sender;
+        asset = _config.asset;
+        paymentToken = _config.paymentToken;
+        quantity = _config.quantity;
+        // Pending until the start time, bids are accepted from then on
+        startTime = _config.startTime == 0 ? block.timestamp : _config.startTime;
+        endTime = startTime + _config.duration;
+        maxParticipant = _config.maxParticipant;
+        startPrice = _config.startPrice;
+        priceStep = _config.priceStep;
+        stepDuration = _config.stepDuration;
+        floorPrice = _config.floorPrice;
+        decryptionGracePeriod = _decryptionGracePeriod;
+
+        emit AuctionCreated(_config.asset, _config.paymentToken, _config.quantity);
+    }
+
+    /// @notice Lock funds for bidding
+    /// @param amount Amount of funds to lock
+    function lockFunds(uint256 amount) external payable nonReentrant activeAuction {
+        if (amount == 0) revert ZeroAmount();
+        if (paymentToken == address(0)) {
+            if (msg.value != amount) revert EtherAmountMismatch();
+        } else {
+            if (!ERC20(paymentToken).transferFrom(msg.sender, address(this), amount)) revert ERC20TransferFailed();
+        }
+        lockedFunds[msg.sender] += amount;
+    }
+
+    /// @notice Place the sealed limit order of the caller, one per bidder. The bid is zeroed when the locked funds do
+    /// not cover its limit price times its quantity, so that it can be paid at any clock price
+    /// @param _encryptedQuantity Encrypted quantity of tokens bid
+    /// @param _encryptedPrice Encrypted limit price per token
+    /// @param _inputProof Proof for encryption
+    function placeEncryptedBid(
+        einput _encryptedQuantity,
+        einput _encryptedPrice,
+        bytes calldata _inputProof
+    ) external activeAuction {
+        if (hasParticipated[msg.sender]) revert AlreadyBid();
+        if (bids.length >= maxParticipant) revert TooManyBids();
+        hasParticipated[msg.sender] = true;
+
+        uint256 decimals = paymentToken == address(0) ? 18 : ERC20(paymentToken).decimals();
+        EncryptedBid storage bid = bids.push();
+        bid.bidder = msg.sender;
+        ebool accepted;
+        (bid.encryptedQuantity, bid.encryptedPrice, , accepted) = EncryptedFunds.checkBid(
+            TFHE.asEuint256(_encryptedQuantity, _inputProof),
+            TFHE.asEuint256(_encryptedPrice, _inputProof),
+            TFHE.asEuint256(0),
+            TFHE.asEuint256(lockedFunds[msg.sender] * 10 ** decimals)
+        );
+        bidAccepted[msg.sender] = accepted;
+
+        emit BidChecked(msg.sender, accepted);
+        emit EncryptedBidPlaced(msg.sender, bid.encryptedQuantity, bid.encryptedPrice);
+    }
+
+    /// @notice Public clock price: startPrice until the bidding ends, then lowered by priceStep every stepDuration
+    /// down to floorPrice
+    function clockPrice() public view returns (uint256) {
+        if (block.timestamp <= endTime) return startPrice;
+        uint256 drop = ((block.timestamp - endTime) / stepDuration) * priceStep;
+        return drop >= startPrice - floorPrice ? floorPrice : startPrice - drop;
+    }
+
+    /// @notice Next clock price whose demand is checked: startPrice first, then one step below the last uncovered
+    /// price, never below floorPrice. No step is skipped, however late the check, so that the clock stops at the first
+    /// price whose demand covers the quantity
+    function nextCheckPrice() public view returns (uint256) {
+        if (lastUncoveredPrice == 0) return startPrice;
+        return lastUncoveredPrice - floorPrice > priceStep ? lastUncoveredPrice - priceStep : floorPrice;
+    }
+
+    /// @notice Add the next batch of bids to the encrypted demand at nextCheckPrice, then request the decryption of
+    /// whether it covers the quantity. The price is fixed by the first batch of a check once the clock reached it, a
+    /// check whose decryption expired can be started again
+    /// @dev About 0.6M FHE gas per bid, batches must fit the 10M FHE gas block limit
+    /// @param batchSize Maximum number of bids added in this transaction
+    function checkDemand(uint256 batchSize) external onlyOwner inPhase(AuctionPhase.Closed) {
+        if (cleared || batchSize == 0) revert InvalidBatch();
+        if (checkPending) {
+            if (block.timestamp <= decryptionDeadline) revert CheckPending();
+            checkPending = false;
+            checkedBids = 0;
+        }
+        if (checkedBids == 0) {
+            uint256 price = nextCheckPrice();
+            if (clockPrice() > price) revert ClockNotLowered();
+            checkPrice = price;
+            demand = TFHE.asEuint256(0);
+        }
+
+        uint256 end = Math.min(checkedBids + batchSize, bids.length);
+        for (uint256 i = checkedBids; i < end; i++) {
+            EncryptedBid storage bid = bids[i];
+            ebool inDemand = TFHE.ge(bid.encryptedPrice, checkPrice);
+            demand = TFHE.add(demand, TFHE.select(inDemand, bid.encryptedQuantity, TFHE.asEuint256(0)));
+        }
+        TFHE.allowThis(demand);
+        checkedBids = end;
+        if (end < bids.length) return;
+
+        uint256[] memory cts = new uint256[](1);
+        cts[0] = Gateway.toUint256(TFHE.ge(demand, quantity));
+        checkRequestId = _requestDecryption(cts, this.callbackDemand.selector);
+        checkPending = true;
+        emit DemandCheckRequested(checkRequestId, checkPrice);
+    }
+
+    /// @notice Callback function to handle whether the demand at the checked price covers the quantity. The clock stops
+    /// there when it does, or at the floor price where every bid at or above it is filled
+    function callbackDemand(uint256 requestId, bool covered) public onlyGateway {
+        if (!checkPending || requestId != checkRequestId) revert InvalidParams();
+        checkPending = false;
+        checkedBids = 0;
+        emit DemandChecked(checkPrice, covered);
+
+        if (!covered) {
+            lastUncoveredPrice = checkPrice;
+            uncoveredDemand = demand;
+            if (checkPrice != floorPrice) return;
+        }
+        cleared = true;
+        settlementPrice = checkPrice;
+        // The bids counted at the last uncovered price are filled in full and leave some supply to the others
+        fillPrice = lastUncoveredPrice == 0 ? type(uint256).max : lastUncoveredPrice;
+        remaining = TFHE.sub(quantity, uncoveredDemand);
+        TFHE.allowThis(remaining);
+        emit ClockStopped(settlementPrice);
+    }
+
+    /// @notice Request the decryption of the allocation of the next batch of bids once the clock stopped, the auction
+    /// is settled once every bid is requested
+    /// @dev About 1.4M FHE gas per bid, batches must fit the 10M FHE gas block limit
+    /// @param batchStart Index of the first bid of the batch, must follow the previous batch
+    /// @param batchSize Maximum number of bids requested in this transaction
+    function settleAuction(uint256 batchStart, uint256 batchSize) external onlyOwner {
+        AuctionPhase current = getPhase();
+        if (current != AuctionPhase.Closed && (current != AuctionPhase.Decrypting || settled)) {
+            revert InvalidPhase(AuctionPhase.Closed, current);
+        }
+        if (!cleared) revert CheckPending();
+        if (batchStart != requestIds.length || batchSize == 0) revert InvalidBatch();
+        if (current == AuctionPhase.Closed) _setPhase(AuctionPhase.Decrypting);
+
+        uint256 end = Math.min(batchStart + batchSize, bids.length);
+        for (uint256 i = batchStart; i < end; i++) {
+            requestIds.push(_requestAllocation(i));
+            allocations.push();
+        }
+        if (end < bids.length) return;
+
+        settled = true;
+        if (decryptedCount == requestIds.length) _setPhase(AuctionPhase.Decrypted);
+    }
+
+    /// @notice Bids at or above fillPrice get their quantity, the other bids at or above the clearing price share what
+    /// is left in the bidding order
+    function _requestAllocation(uint256 index) private returns (uint256 requestID) {
+        EncryptedBid storage bid = bids[index];
+        ebool full = fillPrice == type(uint256).max ? TFHE.asEbool(false) : TFHE.ge(bid.encryptedPrice, fillPrice);
+        ebool sharing = TFHE.and(TFHE.ge(bid.encryptedPrice, settlementPrice), TFHE.not(full));
+        euint256 share = TFHE.select(sharing, TFHE.min(bid.encryptedQuantity, remaining), TFHE.asEuint256(0));
+        euint256 allocation = TFHE.select(full, bid.encryptedQuantity, share);
+        remaining = TFHE.sub(remaining, share);
+        TFHE.allowThis(remaining);
+
+        uint256[] memory cts = new uint256[](1);
+        cts[0] = Gateway.toUint256(allocation);
+        requestID = _requestDecryption(cts, this.callbackAllocation.selector);
+        addParamsUint256(requestID, index);
+        emit DecryptionRequested(requestID, bid.bidder);
+    }
+
+    /// @notice Callback function to handle the decrypted allocation of a bid
+    function callbackAllocation(uint256 requestId, uint256 _quantity) public onlyGateway {
+        if (isDecrypted[requestId]) revert AlreadyDecrypted();
+        uint256[] memory params = getParamsUint256(requestId);
+        if (params.length == 0 || requestIds[params[0]] != requestId) revert InvalidParams();
+
+        allocations[params[0]] = _quantity;
+        isDecrypted[requestId] = true;
+        decryptedCount++;
+        emit DecryptionCompleted(requestId, bids[params[0]].bidder, _quantity);
+        if (settled && decryptedCount == requestIds.length && phase == AuctionPhase.Decrypting) {
+            _setPhase(AuctionPhase.Decrypted);
+        }
+    }
+
+    /// @notice Sends a decryption request to the Gateway and records its deadline
+    function _requestDecryption(uint256[] memory cts, bytes4 callbackSelector) private returns (uint256) {
+        decryptionDeadline = block.timestamp + DECRYPTION_TIMEOUT;
+        return Gateway.requestDecryption(cts, callbackSelector, 0, decryptionDeadline, false);
+    }
+
+    /// @notice Record the asset and payment of the next batch of bids at the clearing price, the rest of the locked
+    /// funds is refunded on claim. The auction is Distributed once every bid is recorded
+    /// @param batchSize Maximum number of bids processed in this transaction
+    function distributeFunds(uint256 batchSize) external onlyOwner nonReentrant inPhase(AuctionPhase.Decrypted) {
+        if (batchSize == 0) revert InvalidBatch();
+        uint256 decimals = paymentToken == address(0) ? 18 : ERC20(paymentToken).decimals();
+
+        uint256 end = Math.min(distributedBids + batchSize, bids.length);
+        for (uint256 i = distributedBids; i < end; i++) {
+            uint256 allocation = allocations[i];
+            if (allocation == 0) continue;
+            address bidder = bids[i].bidder;
+            uint256 payableAmount = (allocation * settlementPrice) / 10 ** decimals;
+            lockedFunds[bidder] -= payableAmount;
+            claimableAsset[bidder] += allocation;
+            claimableProceeds += payableAmount;
+            totalAllocated += allocation;
+        }
+        distributedBids = end;
+        if (end < bids.length) return;
+
+        unsoldAssets = quantity - totalAllocated;
+        _setPhase(AuctionPhase.Distributed);
+    }
+
+    /// @notice Withdraw the asset won and the unused locked funds once funds are distributed, or all the locked
+    /// funds once the auction is cancelled
+    function claim() external nonReentrant {
+        AuctionPhase current = getPhase();
+        if (current != AuctionPhase.Distributed && current != AuctionPhase.Cancelled) {
+            revert InvalidPhase(AuctionPhase.Distributed, current);
+        }
+        uint256 assetAmount = claimableAsset[msg.sender];
+        uint256 refundAmount = lockedFunds[msg.sender];
+        if (assetAmount == 0 && refundAmount == 0) revert NothingToClaim();
+        claimableAsset[msg.sender] = 0;
+        lockedFunds[msg.sender] = 0;
+
+        if (assetAmount > 0) {
+            if (!ERC20(asset).transfer(msg.sender, assetAmount)) revert ERC20TransferFailed();
+        }
+        if (refundAmount > 0) _refund(msg.sender, refundAmount);
+
+        emit Claimed(msg.sender, assetAmount, refundAmount);
+    }
+
+    /// @notice Withdraw the payments collected and the unsold assets once funds are distributed
+    function claimProceeds() external onlyOwner nonReentrant inPhase(AuctionPhase.Distributed) {
+        uint256 proceeds = claimableProceeds;
+        uint256 unsold = unsoldAssets;
+        if (proceeds == 0 && unsold == 0) revert NothingToClaim();
+        claimableProceeds = 0;
+        unsoldAssets = 0;
+
+        if (proceeds > 0) {
+            if (paymentToken == address(0)) {
+                (bool success, ) = owner.call{ value: proceeds }("");
+                if (!success) revert TransferToOwnerFailed();
+            } else {
+                if (!ERC20(paymentToken).transfer(owner, proceeds)) revert TransferToOwnerFailed();
+            }
+        }
+        if (unsold > 0) {
+            if (!ERC20(asset).transfer(owner, unsold)) revert RefundAssetsFailed();
+        }
+
+        emit ProceedsClaimed(owner, proceeds, unsold);
+    }
+
+    /// @notice Cancel the auction before its settlement, the asset goes back to the owner and every participant can
+    /// claim their locked funds
+    /// @dev Callable by the owner, or by the guardian of the factory through AuctionFactory.cancelAuction
+    function cancelAuction() external nonReentrant {
+        if (msg.sender != owner && msg.sender != factory) revert NotOwner();
+        AuctionPhase current = getPhase();
+        if (current >= AuctionPhase.Decrypting) revert InvalidPhase(AuctionPhase.Closed, current);
+        _cancel();
+    }
+
+    /// @notice Abandon a settlement the Gateway did not complete, once the grace period following the last decryption
+    /// deadline is over. The auction is cancelled, as with cancelAuction
+    function abandonSettlement() external nonReentrant inPhase(AuctionPhase.Decrypting) {
+        if (block.timestamp <= decryptionDeadline + decryptionGracePeriod) revert GracePeriodNotOver();
+        _cancel();
+    }
+
+    /// @notice Returns the asset to the owner, every participant can then claim their locked funds
+    function _cancel() private {
+        _setPhase(AuctionPhase.Cancelled);
+        if (!ERC20(asset).transfer(owner, quantity)) revert RefundAssetsFailed();
+        emit AuctionCancelled(msg.sender, quantity);
+    }
+
+    /// @notice Sends back locked Ether or payment tokens to a participant
+    function _refund(address participant, uint256 refundAmount) private {
+        if (paymentToken == address(0)) {
+            (bool success, ) = participant.call{ value: refundAmount }("");
+            if (!success) revert EtherRefundFailed();
+        } else {
+            if (!ERC20(paymentToken).transfer(participant, refundAmount)) revert ERC20TransferFailed();
+        }
+    }
+
+    /// @notice Get all encrypted bids
+    function getAllBids() public view returns (EncryptedBid[] memory) {
+        return bids;
+    }
+
+    /// @notice Get the decrypted allocation of every bid requested so far
+    function getAllocations() public view returns (uint256[] memory) {
+        return allocations;
+    }
+
+    /// @notice Number of bidders, each places a single bid
+    function participantCount() external view returns (uint256) {
+        return bids.length;
+    }
+
+    function isActive() public view returns (bool) {
+        return getPhase() == AuctionPhase.Open;
+    }
+
+    /// @notice Current phase of the auction
+    function getPhase() public view returns (AuctionPhase) {
+        if (phase >= AuctionPhase.Decrypting) return phase;
+        if (block.timestamp < startTime) return AuctionPhase.Pending;
+        if (block.timestamp <= endTime) return AuctionPhase.Open;
+        return AuctionPhase.Closed;
+    }
+
+    /// @dev Out of the modifiers, which are inlined in every function using them
+    function _requirePhase(AuctionPhase expected) private view {
+        AuctionPhase current = getPhase();
+        if (current != expected) revert InvalidPhase(expected, current);
+    }
+
+    function _requireActive() private view {
+        if (getPhase() != AuctionPhase.Open) revert AuctionNotActive();
+    }
+
+    /// @notice Moves the auction to a new phase and logs the transition
+    function _setPhase(AuctionPhase newPhase) private {
+        emit PhaseChanged(getPhase(), newPhase);
+        phase = newPhase;
+    }
+}
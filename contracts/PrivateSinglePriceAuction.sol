@@ -1,21 +1,90 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
 import "fhevm/lib/TFHE.sol";
 import "fhevm/config/ZamaFHEVMConfig.sol";
 import "fhevm/config/ZamaGatewayConfig.sol";
 import "fhevm/gateway/GatewayCaller.sol";
+import "fhevm-contracts/contracts/token/ERC20/IConfidentialERC20.sol";
+import "./libraries/EncryptedAllocation.sol";
+import "./libraries/EncryptedFunds.sol";
+import "./libraries/HomomorphicClearing.sol";
+
+contract PrivateSinglePriceAuction is
+    SepoliaZamaFHEVMConfig,
+    SepoliaZamaGatewayConfig,
+    GatewayCaller,
+    ReentrancyGuard,
+    Initializable
+{
+    /// @notice Lifecycle of the auction, Pending/Open/Closed are derived from the timestamps
+    /// while the later phases are reached through explicit transitions
+    enum AuctionPhase {
+        Pending,
+        Open,
+        Closed,
+        Decrypting,
+        Decrypted,
+        Distributed,
+        Cancelled
+    }
+
+    /// @notice How the quantity left at the clearing price is shared between bids offering that same price
+    enum TieBreaking {
+        FirstCome, // Earliest bids are filled first
+        ProRata, // Shared in proportion to the quantity bid
+        Random // Filled in an order drawn from on-chain FHE randomness
+    }
+
+    /// @notice Price paid by the winners for the quantity allocated to them
+    enum Pricing {
+        Uniform, // Every winner pays the clearing price
+        PayAsBid, // Every winner pays the price of its own bid (discriminatory auction)
+        SecondPrice // The highest bid for the whole supply wins it at the second highest price (Vickrey auction)
+    }
+
+    /// @notice Settings of an auction chosen by its owner, validated by the factory
+    struct Config {
+        address asset; // ERC20 token being sold
+        address paymentToken; // Ether (address(0)) or ERC20 token used for payment
+        bool confidentialPayment; // Whether the payment token is a ConfidentialERC20, funds are then locked encrypted
+        bool confidentialAsset; // Whether the asset is a ConfidentialERC20, allocations then stay encrypted
+        bool homomorphicClearing; // Whether the clearing price is computed without decrypting the bids
+        uint256 quantity; // Quantity of asset sold
+        uint256 startTime; // Opening time of the bidding, 0 opens it at creation
+        uint256 duration; // Bidding time after the opening
+        uint256 maxParticipant; // Maximum number of distinct bidders
+        TieBreaking tieBreaking; // Policy for the bids tied at the clearing price
+        uint256 extensionWindow; // A bid placed this close to the end extends the bidding, 0 never extends it
+        uint256 extensionDuration; // Time added to the end by each extension
+        uint256 maxExtension; // Total time the extensions can add to the end
+        bytes32 allowlistRoot; // Merkle root of the addresses allowed to bid, 0 lets anyone bid
+        Pricing pricing; // Price paid by the winners
+    }
 
-contract PrivateSinglePriceAuction is SepoliaZamaFHEVMConfig, SepoliaZamaGatewayConfig, GatewayCaller, ReentrancyGuard {
     address public owner; // Owner of the auction contract
+    address public factory; // Factory that deployed the auction
     address public asset; // Address of the ERC20 token being auctioned
     address public paymentToken; // Address of the payment token (0 for Ether)
+    bool public confidentialPayment; // Whether the payment token is a ConfidentialERC20 with encrypted amounts
+    bool public confidentialAsset; // Whether the asset is a ConfidentialERC20, allocations then stay encrypted
+    bool public homomorphicClearing; // Whether the clearing is computed on encrypted bids, see compareBids
     uint256 public quantity; // Total quantity of tokens being auctioned
     uint256 public startTime; // Start time of the auction
-    uint256 public endTime; // End time of the auction
+    uint256 public endTime; // End time of the auction, pushed back by the bids placed within extensionWindow of it
+    uint256 public extensionWindow; // Time before the end in which a bid extends the bidding
+    uint256 public extensionDuration; // Time added to the end by each extension
+    uint256 public maxEndTime; // Latest end time the extensions can reach
     uint256 public maxParticipant; // Maximum number of participants
+    euint256 public reservePrice; // Encrypted minimum clearing price, uninitialized when there is none
+    bytes32 public allowlistRoot; // Merkle root of the addresses allowed to lock funds and bid, 0 when open to all
+    uint256 public constant MAX_BIDS_PER_BIDDER = 3; // Max tranches per bidder, fits the FHE gas block limit
 
     struct EncryptedBid {
         address bidder;
@@ -36,21 +105,65 @@ contract PrivateSinglePriceAuction is SepoliaZamaFHEVMConfig, SepoliaZamaGateway
     uint256 public settlementPrice = 0; // Final settlement price
     mapping(uint256 => bool) public isDecrypted; // Tracks decryption status of bids
     mapping(address => bool) public hasParticipated; // Tracks if a user has placed a bid
+    mapping(address => uint256) public bidCount; // Number of tranches placed by each bidder
+    uint256 public participantCount; // Number of distinct bidders
+    mapping(address => euint256) private committedFunds; // Encrypted sum of price * quantity of accepted tranches
+    mapping(address => ebool) public bidAccepted; // Whether the locked funds covered the last tranche of each bidder
     address[] public lockedParticipant; // List of participants with locked funds
     mapping(address => uint256) public lockedFunds; // Tracks locked funds for each participant
+    mapping(address => euint64) public encryptedLockedFunds; // Locked funds with a confidential payment token
+    mapping(address => euint256) private encryptedCollateral; // Encrypted locked funds scaled by the token decimals
+    mapping(address => uint256) private paidFunds; // Payments recorded against encrypted locked funds
+    mapping(address => euint64) public encryptedRefund; // Unused encrypted locked funds waiting to be claimed
+    EncryptedAllocation.State private confidentialAllocation; // Encrypted allocations of a confidential asset
+    euint64 public encryptedUnsold; // Confidential asset left unallocated, returned to the owner with the proceeds
+    HomomorphicClearing.State private clearing; // Encrypted clearing price and allocations with homomorphic clearing
+    uint256 public comparedPairs; // Number of pairs of bids compared with homomorphic clearing, of bids ranked in
+    // second-price mode
     bool public settled; // Indicates whether the auction is settled
+    mapping(address => uint256) public claimableAsset; // Asset allocated to a winner, waiting to be claimed
+    mapping(address => uint256) public claimableRefund; // Unused locked funds waiting to be claimed
+    uint256 public claimableProceeds; // Payments collected for the owner, waiting to be claimed
+    uint256 public unsoldAssets; // Unsold quantity of asset returned to the owner with the proceeds
+    uint256 public decryptedCount; // Number of decryption requests fulfilled by the Gateway
+    TieBreaking public tieBreaking; // Policy applied to the bids tied at the clearing price
+    Pricing public pricing; // Price paid by the winners, the clearing price or their own bid
+    uint64 public randomSeed; // Decrypted FHE random number ordering ties with the Random policy
+    uint256 public settledBids; // Number of bids whose decryption has been requested
+    uint256[] public clearingOrder; // Bid indexes sorted off-chain by decreasing price, verified on submission
+    uint256 public marginalSupply; // Quantity left for the bids at the clearing price
+    uint256 public marginalDemand; // Total quantity bid at the clearing price
+    uint256 private levelStartDemand; // Quantity bid above the price level being ordered
+    uint256 private orderedDemand; // Quantity bid by the bids ordered so far
+    uint256 private marginalProcessed; // Quantity bid by the bids at the clearing price distributed so far
+    uint256 private totalAllocated; // Quantity allocated to the bids distributed so far
+    uint256 public distributedBids; // Number of bids of the clearing order distributed
+    uint256 private refundedParticipants; // Number of locked participants whose refund has been recorded
+    uint256 public constant DECRYPTION_TIMEOUT = 2 hours; // Time given to the Gateway to fulfil a decryption request
+    uint256 public decryptionGracePeriod; // Delay after the last decryption deadline before settlement can be abandoned
+    uint256 public decryptionDeadline; // Latest deadline of the decryption requests
+    mapping(uint256 => uint256) public requestDeadline; // Deadline after which the Gateway rejects a request
+    AuctionPhase private phase; // Last phase reached through a transition (see getPhase)
 
     event AuctionCreated(address indexed asset, address indexed paymentToken, uint256 quantity);
     event EncryptedBidPlaced(address indexed bidder, euint256 quantity, euint256 price);
+    event EncryptedBidUpdated(address indexed bidder, euint256 quantity, euint256 price);
+    event BidChecked(address indexed bidder, ebool accepted);
+    event BidCancelled(address indexed bidder, uint256 refundAmount);
     event AuctionSettled(euint256 settlementPrice);
     event DecryptionRequested(uint256 indexed requestId, address indexed bidder);
     event DecryptionCompleted(uint256 indexed requestId, address indexed bidder, uint256 quantity, uint256 price);
+    event Claimed(address indexed participant, uint256 assetAmount, uint256 refundAmount);
+    event ProceedsClaimed(address indexed owner, uint256 proceeds, uint256 unsoldAssets);
+    event PhaseChanged(AuctionPhase indexed previousPhase, AuctionPhase indexed newPhase);
+    event AuctionCancelled(address indexed by, uint256 assetReturned);
+    event AuctionExtended(uint256 endTime);
+    event AllowlistRootUpdated(bytes32 root);
 
     // Custom errors for gas-efficient error handling
     error AuctionNotActive(); // Thrown when auction is not in active state
-    error AuctionStillActive(); // Thrown when auction hasn't ended yet
     error NotOwner(); // Thrown when caller is not the auction owner
-    error AuctionAlreadySettled(); // Thrown when trying to settle an already settled auction
+    error InvalidPhase(AuctionPhase expected, AuctionPhase current); // Thrown when a transition is not allowed
     error ZeroAmount(); // Thrown when attempting to lock zero funds
     error EtherAmountMismatch(); // Thrown when sent ETH doesn't match specified amount
     error ERC20TransferFailed(); // Thrown when ERC20 token transfer fails
@@ -60,259 +173,828 @@ contract PrivateSinglePriceAuction is SepoliaZamaFHEVMConfig, SepoliaZamaGateway
     error DistributeAssetsFailed(); // Thrown when asset distribution fails
     error EtherRefundFailed(); // Thrown when ETH refund fails
     error RefundAssetsFailed(); // Thrown when asset refund fails
-    error NotAllDecrypted(); // Thrown when not all bids are decrypted
+    error NoBid(); // Thrown when the caller has no bid to update, or neither a bid nor locked funds to cancel
+    error TooManyBids(); // Thrown when a bidder exceeds MAX_BIDS_PER_BIDDER tranches
+    error NothingToClaim(); // Thrown when the caller has nothing left to claim
+    error NotFactory(); // Thrown when the caller is not the factory that deployed the auction
+    error InvalidBatch(); // Thrown when a settlement batch does not follow the previous one or is empty
+    error InvalidClearingOrder(); // Thrown when the clearing order is not sorted, or incomplete when distributing
+    error DecryptionNotExpired(); // Thrown when retrying a decryption request that is fulfilled or still pending
+    error GracePeriodNotOver(); // Thrown when abandoning the settlement before the decryption grace period is over
+    error WrongPaymentMode(); // Thrown when locking plaintext funds for a confidential payment token, or the reverse
+    error ComparisonIncomplete(); // Thrown when settling with homomorphic clearing before every pair is compared
+    error NotAllowlisted(); // Thrown when the caller is not proven to be in the allowlist
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
         _;
     }
 
     modifier activeAuction() {
-        if (block.timestamp < startTime || block.timestamp > endTime) revert AuctionNotActive();
+        _requireActive();
+        _;
+    }
+
+    modifier inPhase(AuctionPhase expected) {
+        _requirePhase(expected);
         _;
     }
 
-    modifier auctionEnded() {
-        if (block.timestamp <= endTime) revert AuctionStillActive();
+    modifier onlyAllowlisted(bytes32[] calldata proof) {
+        _requireAllowlisted(proof);
         _;
     }
 
-    /// @notice Constructor to initialize the auction
-    constructor(
-        address _owner,
-        address _asset,
-        address _paymentToken,
-        uint256 _quantity,
-        uint256 _duration,
-        uint256 _maxParticipant
-    ) {
+    /// @notice Locks the implementation, auctions are EIP-1167 clones initialized by the factory
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initialize a clone of the auction, in place of a constructor
+    /// @dev Clones do not run the constructors of SepoliaZamaFHEVMConfig and SepoliaZamaGatewayConfig, the FHEVM and
+    /// Gateway configs they store are set again in the storage of the clone
+    function initialize(address _owner, Config calldata _config, uint256 _decryptionGracePeriod) external initializer {
+        TFHE.setFHEVM(ZamaFHEVMConfig.getSepoliaConfig());
+        Gateway.setGateway(ZamaGatewayConfig.getSepoliaConfig());
         owner = _owner;
-        asset = _asset;
-        paymentToken = _paymentToken;
-        quantity = _quantity;
-        startTime = block.timestamp;
-        endTime = startTime + _duration;
-        maxParticipant = _maxParticipant;
+        factory = msg.sender;
+        asset = _config.asset;
+        paymentToken = _config.paymentToken;
+        confidentialPayment = _config.confidentialPayment;
+        confidentialAsset = _config.confidentialAsset;
+        homomorphicClearing = _config.homomorphicClearing;
+        quantity = _config.quantity;
+        // Pending until the start time, bids are accepted from then on
+        startTime = _config.startTime == 0 ? block.timestamp : _config.startTime;
+        endTime = startTime + _config.duration;
+        extensionWindow = _config.extensionWindow;
+        extensionDuration = _config.extensionDuration;
+        maxEndTime = endTime + _config.maxExtension;
+        maxParticipant = _config.maxParticipant;
+        tieBreaking = _config.tieBreaking;
+        allowlistRoot = _config.allowlistRoot;
+        pricing = _config.pricing;
+        decryptionGracePeriod = _decryptionGracePeriod;
+
+        emit AuctionCreated(_config.asset, _config.paymentToken, _config.quantity);
+    }
 
-        emit AuctionCreated(_asset, _paymentToken, _quantity);
+    /// @notice Set the encrypted reserve price, bids below it are excluded when the auction is settled
+    /// @dev Called by the factory right after deployment, which must allow the auction on the handle
+    function setReservePrice(euint256 _reservePrice) external {
+        if (msg.sender != factory) revert NotFactory();
+        reservePrice = _reservePrice;
+        TFHE.allowThis(reservePrice);
+        TFHE.allow(reservePrice, owner);
+    }
+
+    /// @notice Replace the Merkle root of the allowlist before the bidding closes, 0 opens the auction to all
+    /// @dev Removed addresses can no longer lock funds or place tranches, the bids they placed are kept
+    function setAllowlistRoot(bytes32 _root) external onlyOwner {
+        AuctionPhase current = getPhase();
+        if (current > AuctionPhase.Open) revert InvalidPhase(AuctionPhase.Open, current);
+        allowlistRoot = _root;
+        emit AllowlistRootUpdated(_root);
     }
 
     /// @notice Place an encrypted bid in the auction
     /// @param _encryptedQuantity Encrypted quantity of tokens bid
     /// @param _encryptedPrice Encrypted price per token bid
     /// @param _inputProof Proof for encryption
+    /// @param _allowlistProof Merkle proof of the caller in the allowlist, empty when there is none
     /// @return Returns true if the bid is placed successfully
     function placeEncryptedBid(
         einput _encryptedQuantity,
         einput _encryptedPrice,
-        bytes calldata _inputProof
+        bytes calldata _inputProof,
+        bytes32[] calldata _allowlistProof
     ) external payable returns (bool) {
-        placeBid(TFHE.asEuint256(_encryptedQuantity, _inputProof), TFHE.asEuint256(_encryptedPrice, _inputProof));
+        placeBid(
+            TFHE.asEuint256(_encryptedQuantity, _inputProof),
+            TFHE.asEuint256(_encryptedPrice, _inputProof),
+            _allowlistProof
+        );
+        return true;
+    }
+
+    /// @notice Place several encrypted tranches at once, each tranche is allocated as a separate bid
+    /// @param _encryptedQuantities Encrypted quantity of tokens bid in each tranche
+    /// @param _encryptedPrices Encrypted price per token of each tranche
+    /// @param _inputProof Proof for encryption, shared by all the tranches
+    /// @param _allowlistProof Merkle proof of the caller in the allowlist, empty when there is none
+    /// @return Returns true if the tranches are placed successfully
+    function placeEncryptedBidLadder(
+        einput[] calldata _encryptedQuantities,
+        einput[] calldata _encryptedPrices,
+        bytes calldata _inputProof,
+        bytes32[] calldata _allowlistProof
+    ) external returns (bool) {
+        if (_encryptedQuantities.length != _encryptedPrices.length) revert InvalidParams();
+        for (uint256 i = 0; i < _encryptedQuantities.length; i++) {
+            placeBid(
+                TFHE.asEuint256(_encryptedQuantities[i], _inputProof),
+                TFHE.asEuint256(_encryptedPrices[i], _inputProof),
+                _allowlistProof
+            );
+        }
         return true;
     }
 
-    /// @notice Places an encrypted bid with verification
+    /// @notice Places an encrypted bid with verification, a bidder can place up to MAX_BIDS_PER_BIDDER tranches
+    /// all collateralised by the same locked funds
     /// @param encryptedQuantity The encrypted amount of tokens to bid for
     /// @param encryptedPrice The encrypted price per token
-    function placeBid(euint256 encryptedQuantity, euint256 encryptedPrice) public payable activeAuction {
-        uint256 length = bids.length;
-        require(!hasParticipated[msg.sender] && length <= maxParticipant, "Invalid bid");
-
-        // Convert bid to payment token precision and verify sufficient locked funds
-        euint256 totalBids = TFHE.mul(encryptedPrice, encryptedQuantity);
-        uint256 decimals = paymentToken == address(0) ? 18 : ERC20(paymentToken).decimals();
-        euint256 totalBidsSamePrecision = TFHE.div(totalBids, 10 ** decimals);
-
-        // Check if user has locked enough funds (in encrypted space)
-        ebool isLockFundsGreater = TFHE.ge(TFHE.asEuint256(lockedFunds[msg.sender]), totalBidsSamePrecision);
-
-        // If insufficient funds, bid quantities are set to 0 while maintaining privacy
-        euint256 finalEncryptedQuantity = TFHE.select(isLockFundsGreater, encryptedQuantity, TFHE.asEuint256(0));
-        euint256 finalEncryptedPrice = TFHE.select(isLockFundsGreater, encryptedPrice, TFHE.asEuint256(0));
+    /// @param allowlistProof Merkle proof of the caller in the allowlist, empty when there is none
+    function placeBid(
+        euint256 encryptedQuantity,
+        euint256 encryptedPrice,
+        bytes32[] calldata allowlistProof
+    ) public payable activeAuction onlyAllowlisted(allowlistProof) {
+        uint256 count = bidCount[msg.sender];
+        euint256 committed = committedFunds[msg.sender];
+        if (count == 0) {
+            require(participantCount < maxParticipant, "Invalid bid");
+            participantCount++;
+            hasParticipated[msg.sender] = true;
+            committed = TFHE.asEuint256(0);
+        }
+        if (count >= MAX_BIDS_PER_BIDDER) revert TooManyBids();
+        bidCount[msg.sender] = count + 1;
 
         // Store the bid
         EncryptedBid storage newBid = bids.push();
         newBid.bidder = msg.sender;
-        newBid.encryptedQuantity = finalEncryptedQuantity;
-        newBid.encryptedPrice = finalEncryptedPrice;
+        _setBidAmounts(newBid, encryptedQuantity, encryptedPrice, committed);
 
-        hasParticipated[msg.sender] = true;
+        emit EncryptedBidPlaced(msg.sender, newBid.encryptedQuantity, newBid.encryptedPrice);
+        _extendBidding();
+    }
 
-        // Grant necessary TFHE permissions for later decryption
-        TFHE.allowThis(bids[length].encryptedQuantity);
-        TFHE.allowThis(bids[length].encryptedPrice);
-        TFHE.allow(bids[length].encryptedQuantity, msg.sender);
-        TFHE.allow(bids[length].encryptedPrice, msg.sender);
+    /// @notice Replace one of the caller's tranches while the auction is open, keeping its position in the bid list
+    /// @param _tranche Index of the tranche among the caller's bids
+    /// @param _encryptedQuantity New encrypted quantity of tokens bid
+    /// @param _encryptedPrice New encrypted price per token bid
+    /// @param _inputProof Proof for encryption
+    function updateBid(
+        uint256 _tranche,
+        einput _encryptedQuantity,
+        einput _encryptedPrice,
+        bytes calldata _inputProof
+    ) external activeAuction {
+        EncryptedBid storage bid = bids[_bidIndexOf(msg.sender, _tranche)];
+        _setBidAmounts(
+            bid,
+            TFHE.asEuint256(_encryptedQuantity, _inputProof),
+            TFHE.asEuint256(_encryptedPrice, _inputProof),
+            TFHE.sub(committedFunds[msg.sender], TFHE.mul(bid.encryptedPrice, bid.encryptedQuantity))
+        );
 
-        emit EncryptedBidPlaced(msg.sender, finalEncryptedQuantity, finalEncryptedPrice);
+        emit EncryptedBidUpdated(msg.sender, bid.encryptedQuantity, bid.encryptedPrice);
+        _extendBidding();
     }
 
-    /// @notice Distributes funds and assets after auction settlement
-    /// @dev Processes winner payments, transfers assets, and handles refunds
-    function internalDistributeFunds() internal nonReentrant {
-        uint256 totalAmountPaid;
-        uint256 decimals = paymentToken == address(0) ? 18 : ERC20(paymentToken).decimals();
+    /// @notice Anti-sniping: a bid placed or updated within extensionWindow of the end pushes it back by
+    /// extensionDuration, up to maxEndTime, so that the other bidders have time to respond
+    function _extendBidding() private {
+        if (block.timestamp + extensionWindow <= endTime || endTime >= maxEndTime) return;
+        endTime = Math.min(endTime + extensionDuration, maxEndTime);
+        emit AuctionExtended(endTime);
+    }
+
+    /// @notice Withdraw all the caller's tranches and release its locked funds while the auction is open. A
+    /// participant who locked funds without bidding gets them back the same way
+    function cancelBid() external nonReentrant activeAuction {
+        euint64 encryptedAmount = encryptedLockedFunds[msg.sender];
+        bool encryptedLocked = TFHE.isInitialized(encryptedAmount);
+        if (bidCount[msg.sender] == 0 && lockedFunds[msg.sender] == 0 && !encryptedLocked) revert NoBid();
+        if (bidCount[msg.sender] > 0) _removeBids(msg.sender);
 
-        // Sort bids and determine winners
-        DecryptedBid[] memory winners = allocateWinners(sortBidsByPriceDescending(), quantity);
-        for (uint256 i = 0; i < winners.length; i++) {
-            finalWinners.push(winners[i]);
+        uint256 refundAmount = lockedFunds[msg.sender];
+        if (refundAmount > 0) {
+            lockedFunds[msg.sender] = 0;
+            _removeLockedParticipant(msg.sender);
+            _refund(msg.sender, refundAmount);
+        }
+        if (encryptedLocked) {
+            encryptedLockedFunds[msg.sender] = euint64.wrap(0);
+            encryptedCollateral[msg.sender] = euint256.wrap(0);
+            _removeLockedParticipant(msg.sender);
+            _transferEncrypted(paymentToken, msg.sender, encryptedAmount);
         }
-        // Process payments and distribute assets to winners
-        for (uint256 i = 0; i < winners.length; i++) {
-            address bidder = winners[i].bidder;
-            if (bidder != address(0)) {
-                uint256 payableAmount = (winners[i].quantity * settlementPrice) / 10 ** decimals;
-                lockedFunds[bidder] -= payableAmount;
-                totalAmountPaid += payableAmount;
 
-                if (!ERC20(asset).transfer(bidder, winners[i].quantity)) revert DistributeAssetsFailed();
+        emit BidCancelled(msg.sender, refundAmount);
+    }
+
+    /// @notice Removes every tranche of a bidder, compacting the remaining bids to keep the bidding order
+    function _removeBids(address bidder) private {
+        uint256 kept;
+        for (uint256 i = 0; i < bids.length; i++) {
+            if (bids[i].bidder != bidder) bids[kept++] = bids[i];
+        }
+        while (bids.length > kept) bids.pop();
+
+        bidCount[bidder] = 0;
+        hasParticipated[bidder] = false;
+        participantCount--;
+        committedFunds[bidder] = euint256.wrap(0);
+        bidAccepted[bidder] = ebool.wrap(0);
+    }
+
+    /// @notice Checks the bid against the locked funds not committed to the bidder's other tranches and stores it,
+    /// zeroed if the funds are insufficient. The bidder can reencrypt whether it was accepted, see bidAccepted
+    /// @dev Costs are compared as price * quantity against the locked funds scaled by the token decimals, which avoids
+    /// an encrypted division and keeps several tranches within the FHE gas block limit. Encrypted locked funds are
+    /// scaled once when locked, see lockEncryptedFunds
+    /// @param otherTranchesCost Encrypted price * quantity committed by the bidder's other tranches
+    function _setBidAmounts(
+        EncryptedBid storage bid,
+        euint256 encryptedQuantity,
+        euint256 encryptedPrice,
+        euint256 otherTranchesCost
+    ) private {
+        euint256 collateral;
+        if (confidentialPayment) {
+            collateral = encryptedCollateral[msg.sender];
+        } else {
+            uint256 decimals = paymentToken == address(0) ? 18 : ERC20(paymentToken).decimals();
+            collateral = TFHE.asEuint256(lockedFunds[msg.sender] * 10 ** decimals);
+        }
+        ebool accepted;
+        (bid.encryptedQuantity, bid.encryptedPrice, committedFunds[msg.sender], accepted) = EncryptedFunds.checkBid(
+            encryptedQuantity,
+            encryptedPrice,
+            otherTranchesCost,
+            collateral
+        );
+        bidAccepted[msg.sender] = accepted;
+        emit BidChecked(msg.sender, accepted);
+    }
+
+    /// @notice Index in the bids array of the n-th tranche placed by a bidder
+    function _bidIndexOf(address bidder, uint256 tranche) private view returns (uint256) {
+        if (tranche < bidCount[bidder]) {
+            for (uint256 i = 0; i < bids.length; i++) {
+                if (bids[i].bidder != bidder) continue;
+                if (tranche == 0) return i;
+                tranche--;
             }
         }
+        revert NoBid();
+    }
 
-        // Transfer collected funds to auction owner
-        if (paymentToken == address(0)) {
-            (bool success, ) = owner.call{ value: totalAmountPaid }("");
-            if (!success) revert TransferToOwnerFailed();
+    function _removeLockedParticipant(address participant) private {
+        uint256 length = lockedParticipant.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (lockedParticipant[i] == participant) {
+                lockedParticipant[i] = lockedParticipant[length - 1];
+                lockedParticipant.pop();
+                return;
+            }
+        }
+    }
+
+    /// @notice Records the funds and assets owed to a bid of the clearing order, paid at the clearing price or at the
+    /// bid price depending on the pricing mode
+    /// @dev Nothing is transferred here, winners, participants and the owner pull their share with
+    /// claim and claimProceeds so that a single reverting recipient cannot block the settlement
+    function _distributeBid(DecryptedBid storage bid, uint256 decimals) private {
+        uint256 allocatedQuantity = _allocation(bid);
+        if (allocatedQuantity == 0) return;
+
+        // Pay-as-bid winners pay their own price, the rest of their locked funds is refunded as usual
+        uint256 price = pricing == Pricing.PayAsBid ? bid.price : settlementPrice;
+        uint256 payableAmount = (allocatedQuantity * price) / 10 ** decimals;
+        if (confidentialPayment) {
+            paidFunds[bid.bidder] += payableAmount;
         } else {
-            if (!ERC20(paymentToken).transfer(owner, totalAmountPaid)) revert TransferToOwnerFailed();
+            lockedFunds[bid.bidder] -= payableAmount;
         }
+        claimableAsset[bid.bidder] += allocatedQuantity;
+        claimableProceeds += payableAmount;
+        totalAllocated += allocatedQuantity;
+        finalWinners.push(DecryptedBid(bid.bidder, allocatedQuantity, bid.price));
+    }
+
+    /// @notice Quantity allocated to a bid, bids are visited in the clearing order
+    function _allocation(DecryptedBid storage bid) private returns (uint256) {
+        // Zeroed tranches and bids below the clearing price get nothing, bids above it are filled
+        if (bid.quantity == 0 || bid.price < settlementPrice) return 0;
+        if (bid.price > settlementPrice) return bid.quantity;
+
+        uint256 processed = marginalProcessed;
+        marginalProcessed = processed + bid.quantity;
+        return _marginalShare(processed + bid.quantity) - _marginalShare(processed);
+    }
 
-        _processRefunds();
+    /// @notice Quantity allocated to the first bids at the clearing price bidding `cumulative` in total
+    /// @dev Pro-rata shares are computed on the cumulative quantity so the rounding never loses or creates tokens,
+    /// otherwise the bids are filled in the clearing order, which follows the tie-breaking policy
+    function _marginalShare(uint256 cumulative) private view returns (uint256) {
+        if (tieBreaking == TieBreaking.ProRata && marginalDemand > marginalSupply) {
+            return (cumulative * marginalSupply) / marginalDemand;
+        }
+        return Math.min(cumulative, marginalSupply);
     }
 
-    /// @notice Processes refunds for unused locked funds and unsold assets
-    /// @dev Returns excess funds to participants and unsold assets to owner
-    function _processRefunds() private {
-        // Refund excess locked funds to participants
-        for (uint256 i = 0; i < lockedParticipant.length; i++) {
+    /// @notice Records refunds for unused locked funds and, once every participant is processed, the unsold assets
+    /// @dev Excess funds become claimable by each participant, unsold assets by the owner with the proceeds.
+    /// Encrypted refunds cost an encrypted subtraction per participant
+    /// @param batchSize Maximum number of participants processed
+    function _processRefunds(uint256 batchSize) private {
+        uint256 end = Math.min(refundedParticipants + batchSize, lockedParticipant.length);
+        for (uint256 i = refundedParticipants; i < end; i++) {
             address participant = lockedParticipant[i];
+            if (confidentialPayment) {
+                _recordEncryptedRefund(participant);
+                continue;
+            }
             uint256 refundAmount = lockedFunds[participant];
             if (refundAmount > 0) {
                 lockedFunds[participant] = 0;
-                if (paymentToken == address(0)) {
-                    (bool success, ) = participant.call{ value: refundAmount }("");
-                    if (!success) revert EtherRefundFailed();
-                } else {
-                    if (!ERC20(paymentToken).transfer(participant, refundAmount)) revert ERC20TransferFailed();
-                }
+                claimableRefund[participant] += refundAmount;
             }
         }
+        refundedParticipants = end;
 
-        // Return any unsold assets to the auction owner
-        uint256 unsoldAssets = ERC20(asset).balanceOf(address(this));
-        if (unsoldAssets > 0) {
-            if (!ERC20(asset).transfer(owner, unsoldAssets)) revert RefundAssetsFailed();
+        if (end == lockedParticipant.length) {
+            if (confidentialAsset) {
+                encryptedUnsold = EncryptedAllocation.unsold(confidentialAllocation, asset, quantity, owner);
+            } else {
+                unsoldAssets = quantity - totalAllocated;
+            }
+            _setPhase(AuctionPhase.Distributed);
         }
     }
 
-    /// @notice Sorts decrypted bids by price in descending order
-    /// @dev Maintains bid order consistency with original encrypted bids
-    /// @return Sorted array of DecryptedBid structs
-    function sortBidsByPriceDescending() private view returns (DecryptedBid[] memory) {
-        uint256 n = decryptedBids.length;
-        DecryptedBid[] memory sortedBids = new DecryptedBid[](n);
+    /// @notice Moves the encrypted locked funds a participant did not pay to its encrypted refund
+    function _recordEncryptedRefund(address participant) private {
+        if (!TFHE.isInitialized(encryptedLockedFunds[participant])) return;
+        euint64 payment;
+        if (!confidentialAsset) {
+            payment = TFHE.asEuint64(SafeCast.toUint64(paidFunds[participant]));
+        } else if (TFHE.isInitialized(confidentialAllocation.allocations[participant])) {
+            payment = EncryptedAllocation.payment(
+                confidentialAllocation,
+                participant,
+                settlementPrice,
+                ERC20(paymentToken).decimals(),
+                owner
+            );
+        }
+        EncryptedFunds.refund(encryptedLockedFunds, encryptedRefund, participant, payment);
+    }
 
-        // First match decrypted bids with their original encrypted order
-        for (uint256 i = 0; i < n; i++) {
-            for (uint256 j = 0; j < n; j++) {
-                if (decryptedBids[j].bidder == bids[i].bidder) {
-                    sortedBids[i] = decryptedBids[j];
-                    break;
-                }
-            }
+    /// @notice Makes all the funds locked by a participant refundable, once the auction is cancelled
+    function _releaseLockedFunds(address participant) private {
+        claimableRefund[participant] += lockedFunds[participant];
+        lockedFunds[participant] = 0;
+        confidentialAllocation.allocations[participant] = euint64.wrap(0);
+        if (confidentialPayment) _recordEncryptedRefund(participant);
+    }
+
+    /// @notice Withdraw the asset won and the unused locked funds once funds are distributed, or all the locked
+    /// funds once the auction is cancelled
+    /// @dev Encrypted allocations and refunds are transferred as is, the amounts are not logged
+    function claim() external nonReentrant {
+        AuctionPhase current = getPhase();
+        if (current == AuctionPhase.Cancelled) {
+            _releaseLockedFunds(msg.sender);
+        } else if (current != AuctionPhase.Distributed) {
+            revert InvalidPhase(AuctionPhase.Distributed, current);
         }
+        uint256 assetAmount = claimableAsset[msg.sender];
+        uint256 refundAmount = claimableRefund[msg.sender];
+        bool encryptedClaim = EncryptedFunds.claim(
+            confidentialAllocation.allocations,
+            encryptedRefund,
+            asset,
+            paymentToken,
+            msg.sender
+        );
+        if (assetAmount == 0 && refundAmount == 0 && !encryptedClaim) revert NothingToClaim();
+        claimableAsset[msg.sender] = 0;
+        claimableRefund[msg.sender] = 0;
 
-        // Sort by price using bubble sort
-        for (uint256 i = 0; i < n - 1; i++) {
-            for (uint256 j = 0; j < n - i - 1; j++) {
-                if (sortedBids[j].price < sortedBids[j + 1].price) {
-                    DecryptedBid memory temp = sortedBids[j];
-                    sortedBids[j] = sortedBids[j + 1];
-                    sortedBids[j + 1] = temp;
-                }
-            }
+        if (assetAmount > 0) {
+            if (!ERC20(asset).transfer(msg.sender, assetAmount)) revert DistributeAssetsFailed();
         }
-        return sortedBids;
+        if (refundAmount > 0) _refund(msg.sender, refundAmount);
+
+        emit Claimed(msg.sender, assetAmount, refundAmount);
     }
 
-    function allocateWinners(
-        DecryptedBid[] memory sortedBids,
-        uint256 remainingQuantity
-    ) private returns (DecryptedBid[] memory) {
-        uint256 n = sortedBids.length;
-        DecryptedBid[] memory winners = new DecryptedBid[](n);
+    /// @notice Confidential asset allocated to a winner and not claimed yet, only the winner can reencrypt it
+    function encryptedAllocation(address bidder) external view returns (euint64) {
+        return confidentialAllocation.allocations[bidder];
+    }
 
-        for (uint256 i = 0; i < n; i++) {
-            if (remainingQuantity == 0) break;
+    /// @notice Encrypted payments collected for the owner with a confidential asset, not claimed yet
+    function encryptedProceeds() external view returns (euint64) {
+        return confidentialAllocation.proceeds;
+    }
 
-            uint256 allocatedQuantity = sortedBids[i].quantity;
-            if (remainingQuantity < allocatedQuantity) {
-                allocatedQuantity = remainingQuantity;
-            }
+    /// @notice Withdraw the payments collected and the unsold assets once funds are distributed
+    /// @dev With a confidential asset both are encrypted and the amounts logged are 0
+    function claimProceeds() external onlyOwner nonReentrant inPhase(AuctionPhase.Distributed) {
+        if (confidentialAsset) {
+            euint64 unsoldAmount = encryptedUnsold;
+            euint64 proceedsAmount = confidentialAllocation.proceeds;
+            if (!TFHE.isInitialized(unsoldAmount)) revert NothingToClaim();
+            encryptedUnsold = euint64.wrap(0);
+            confidentialAllocation.proceeds = euint64.wrap(0);
+            if (TFHE.isInitialized(proceedsAmount)) _transferEncrypted(paymentToken, owner, proceedsAmount);
+            _transferEncrypted(asset, owner, unsoldAmount);
+            emit ProceedsClaimed(owner, 0, 0);
+            return;
+        }
+        uint256 proceeds = claimableProceeds;
+        uint256 unsold = unsoldAssets;
+        if (proceeds == 0 && unsold == 0) revert NothingToClaim();
+        claimableProceeds = 0;
+        unsoldAssets = 0;
 
-            sortedBids[i].quantity = allocatedQuantity;
-            winners[i] = sortedBids[i];
+        if (proceeds > 0) _payOwner(proceeds);
+        if (unsold > 0) {
+            if (!ERC20(asset).transfer(owner, unsold)) revert RefundAssetsFailed();
+        }
 
-            unchecked {
-                remainingQuantity -= allocatedQuantity;
-            }
+        emit ProceedsClaimed(owner, proceeds, unsold);
+    }
+
+    /// @notice Sends the proceeds to the owner in Ether or payment tokens, encrypted with a confidential payment token
+    function _payOwner(uint256 proceeds) private {
+        if (paymentToken == address(0)) {
+            (bool success, ) = owner.call{ value: proceeds }("");
+            if (!success) revert TransferToOwnerFailed();
+        } else if (confidentialPayment) {
+            _transferEncrypted(paymentToken, owner, TFHE.asEuint64(SafeCast.toUint64(proceeds)));
+        } else {
+            if (!ERC20(paymentToken).transfer(owner, proceeds)) revert TransferToOwnerFailed();
+        }
+    }
+
+    /// @notice Cancel the auction before its settlement, the asset goes back to the owner and every participant can
+    /// claim their locked funds
+    /// @dev Callable by the owner, or by the guardian of the factory through AuctionFactory.cancelAuction
+    function cancelAuction() external nonReentrant {
+        if (msg.sender != owner && msg.sender != factory) revert NotOwner();
+        AuctionPhase current = getPhase();
+        if (current >= AuctionPhase.Decrypting) revert InvalidPhase(AuctionPhase.Closed, current);
+        _cancel();
+    }
+
+    /// @notice Abandon a settlement the Gateway did not complete, once the grace period following the last decryption
+    /// deadline is over. The auction is cancelled, as with cancelAuction
+    function abandonSettlement() external nonReentrant inPhase(AuctionPhase.Decrypting) {
+        if (block.timestamp <= decryptionDeadline + decryptionGracePeriod) revert GracePeriodNotOver();
+        _cancel();
+    }
+
+    /// @notice Returns the asset to the owner, every participant can then claim their locked funds
+    function _cancel() private {
+        _setPhase(AuctionPhase.Cancelled);
+        if (confidentialAsset) {
+            euint64 balance = IConfidentialERC20(asset).balanceOf(address(this));
+            if (TFHE.isInitialized(balance)) _transferEncrypted(asset, owner, balance);
+        } else {
+            if (!ERC20(asset).transfer(owner, quantity)) revert RefundAssetsFailed();
+        }
+        emit AuctionCancelled(msg.sender, quantity);
+    }
+
+    /// @notice Sends back locked Ether or payment tokens to a participant
+    function _refund(address participant, uint256 refundAmount) private {
+        if (paymentToken == address(0)) {
+            (bool success, ) = participant.call{ value: refundAmount }("");
+            if (!success) revert EtherRefundFailed();
+        } else {
+            if (!ERC20(paymentToken).transfer(participant, refundAmount)) revert ERC20TransferFailed();
+        }
+    }
+
+    /// @notice Sends an encrypted amount of a confidential token held by the auction
+    /// @dev A ConfidentialERC20 transfer never reverts on insufficient balance, the auction always holds these funds
+    function _transferEncrypted(address token, address to, euint64 amount) private {
+        TFHE.allowTransient(amount, token);
+        IConfidentialERC20(token).transfer(to, amount);
+    }
 
-            if (remainingQuantity == 0 || i == n - 1) {
-                settlementPrice = winners[i].price;
+    /// @notice Submit the next part of the clearing order: bid indexes sorted off-chain by decreasing price, bids at
+    /// the same price being sorted by tie key (see tieKey)
+    /// @dev Every index must come strictly after the previous one, so a complete order is a permutation of the bids.
+    /// The clearing price is computed along the way, the order can be submitted in several transactions. Only one order
+    /// is valid, so anyone can submit it and the funds are not stranded if the owner is absent
+    function submitClearingOrder(uint256[] calldata bidIndexes) external inPhase(AuctionPhase.Decrypted) {
+        if (clearingOrder.length + bidIndexes.length > decryptedBids.length) revert InvalidClearingOrder();
+        for (uint256 i = 0; i < bidIndexes.length; i++) {
+            _appendToClearingOrder(bidIndexes[i]);
+        }
+    }
+
+    function _appendToClearingOrder(uint256 index) private {
+        if (index >= decryptedBids.length) revert InvalidClearingOrder();
+        DecryptedBid storage bid = decryptedBids[index];
+        uint256 length = clearingOrder.length;
+        if (length > 0 && !_comesAfter(index, clearingOrder[length - 1])) revert InvalidClearingOrder();
+        if (length == 0 || decryptedBids[clearingOrder[length - 1]].price != bid.price) {
+            levelStartDemand = orderedDemand;
+        }
+        clearingOrder.push(index);
+        orderedDemand += bid.quantity;
+
+        // The clearing price is the lowest price level reached before the supply runs out
+        if (levelStartDemand < quantity && bid.quantity > 0) {
+            settlementPrice = bid.price;
+            marginalSupply = quantity - levelStartDemand;
+            marginalDemand = orderedDemand - levelStartDemand;
+        }
+    }
+
+    /// @notice Whether a decrypted bid comes strictly after another one in the clearing order
+    function _comesAfter(uint256 index, uint256 previous) private view returns (bool) {
+        uint256 price = decryptedBids[index].price;
+        uint256 previousPrice = decryptedBids[previous].price;
+        if (price != previousPrice) return price < previousPrice;
+        return tieKey(index) > tieKey(previous);
+    }
+
+    /// @notice Orders the bids at the same price: bid index, or a key derived from the decrypted random seed with the
+    /// Random policy
+    function tieKey(uint256 bidIndex) public view returns (uint256) {
+        if (tieBreaking == TieBreaking.Random) return uint256(keccak256(abi.encode(randomSeed, bidIndex)));
+        return bidIndex;
+    }
+
+    /// @notice Compare the next batch of pairs of bids with homomorphic clearing, which computes the clearing price
+    /// without decrypting the bids. Every pair must be compared before settleAuction
+    /// @dev Pairs are compared bid by bid, about 0.57M FHE gas per pair and 1.3M more for the last pair of each bid,
+    /// batches must fit the 10M FHE gas block limit. In second-price mode, each bid is only ranked against the highest
+    /// one so far, about 1.3M FHE gas per bid
+    /// @param batchSize Maximum number of pairs compared in this transaction, a bid is not compared to itself, or of
+    /// bids ranked in second-price mode
+    function compareBids(uint256 batchSize) external onlyOwner inPhase(AuctionPhase.Closed) {
+        if (!homomorphicClearing || batchSize == 0) revert InvalidBatch();
+        uint256 count = bids.length;
+        if (pricing == Pricing.SecondPrice) {
+            _rankBids(Math.min(comparedPairs + batchSize, count));
+            return;
+        }
+        uint256 end = Math.min(comparedPairs + batchSize, count * count);
+        for (uint256 pair = comparedPairs; pair < end; pair++) {
+            EncryptedBid storage bid = bids[pair / count];
+            EncryptedBid storage other = bids[pair % count];
+            if (pair / count != pair % count) {
+                HomomorphicClearing.compare(
+                    clearing,
+                    bid.encryptedPrice,
+                    other.encryptedPrice,
+                    other.encryptedQuantity
+                );
+            }
+            if (pair % count == count - 1) {
+                HomomorphicClearing.closeRow(
+                    clearing,
+                    bid.encryptedPrice,
+                    bid.encryptedQuantity,
+                    quantity,
+                    reservePrice
+                );
             }
         }
-        return winners;
+        comparedPairs = end;
     }
 
-    /// @notice Finalize the auction and distribute tokens
-    function settleAuction() public onlyOwner auctionEnded {
-        if (settled) revert AuctionAlreadySettled();
-        require(!settled, "Auction already settled");
+    /// @notice Second-price mode: ranks the bids up to `end` against the highest one, see HomomorphicClearing.rank
+    function _rankBids(uint256 end) private {
+        for (uint256 i = comparedPairs; i < end; i++) {
+            HomomorphicClearing.rank(
+                clearing,
+                i,
+                bids[i].encryptedPrice,
+                bids[i].encryptedQuantity,
+                quantity,
+                reservePrice
+            );
+        }
+        comparedPairs = end;
+    }
 
-        // euint256 remainingQuantity = TFHE.asEuint256(quantity);
-        euint256 priceOfAuction = TFHE.asEuint256(0);
+    /// @dev With homomorphic clearing, the allocations can only be computed once every pair of bids is compared, or
+    /// every bid is ranked in second-price mode
+    function _requireCompared() private view {
+        uint256 count = bids.length;
+        if (homomorphicClearing && comparedPairs != (pricing == Pricing.SecondPrice ? count : count * count)) {
+            revert ComparisonIncomplete();
+        }
+    }
 
-        // Decrypt bidders data
-        for (uint256 i = 0; i < bids.length; i++) {
-            requestDecryption(bids[i].encryptedQuantity, bids[i].encryptedPrice, bids[i].bidder);
+    /// @notice Request the decryption of the next batch of bids, the auction is settled once every bid is requested.
+    /// With a confidential asset, the bids are allocated in encrypted form instead and only the clearing price is
+    /// decrypted, once every bid is allocated
+    /// @param batchStart Index of the first bid of the batch, must follow the previous batch
+    /// @param batchSize Maximum number of bids requested in this transaction
+    function settleAuction(uint256 batchStart, uint256 batchSize) public onlyOwner {
+        AuctionPhase current = getPhase();
+        if (current != AuctionPhase.Closed && (current != AuctionPhase.Decrypting || settled)) {
+            revert InvalidPhase(AuctionPhase.Closed, current);
         }
+        if (batchStart != settledBids || batchSize == 0) revert InvalidBatch();
+        _requireCompared();
+        if (current == AuctionPhase.Closed) _setPhase(AuctionPhase.Decrypting);
+
+        // Decrypt bidders data, bids below the reserve price are decrypted as zero and never allocated. A confidential
+        // asset is allocated in encrypted form instead, no bid is decrypted
+        uint256 end = Math.min(batchStart + batchSize, bids.length);
+        bool hasReserve = TFHE.isInitialized(reservePrice);
+        for (uint256 i = batchStart; i < end; i++) {
+            _settleBid(i, hasReserve);
+        }
+        settledBids = end;
+        if (end < bids.length) return;
+
+        if (tieBreaking == TieBreaking.Random && bids.length > 0) requestIds.push(_requestRandomSeed());
         settled = true;
-        emit AuctionSettled(priceOfAuction);
+        emit AuctionSettled(TFHE.asEuint256(0));
+        if (decryptedCount == requestIds.length) _setPhase(AuctionPhase.Decrypted);
     }
 
-    /// @notice Request decryption of encrypted bids
-    function requestDecryption(euint256 _quantity, euint256 _price, address _bidder) public {
+    /// @notice Requests the decryption of a bid, or allocates it in encrypted form with a confidential asset
+    function _settleBid(uint256 index, bool hasReserve) private {
+        if (confidentialAsset) {
+            _allocateEncrypted(index);
+        } else {
+            requestIds.push(_requestBidDecryption(index, hasReserve));
+            decryptedBids.push();
+        }
+    }
+
+    /// @notice Request decryption of an encrypted bid, the decrypted bid is stored at the same index. With homomorphic
+    /// clearing, the allocation of the bid and the clearing price are decrypted instead
+    function _requestBidDecryption(uint256 index, bool hasReserve) private returns (uint256 requestID) {
+        EncryptedBid storage bid = bids[index];
+        euint256 encryptedQuantity = bid.encryptedQuantity;
+        euint256 encryptedPrice = bid.encryptedPrice;
+        if (homomorphicClearing) {
+            (encryptedQuantity, encryptedPrice) = HomomorphicClearing.allocate(
+                clearing,
+                index,
+                quantity,
+                encryptedQuantity,
+                encryptedPrice
+            );
+        } else if (hasReserve) {
+            ebool meetsReserve = TFHE.ge(encryptedPrice, reservePrice);
+            encryptedQuantity = TFHE.select(meetsReserve, encryptedQuantity, TFHE.asEuint256(0));
+            encryptedPrice = TFHE.select(meetsReserve, encryptedPrice, TFHE.asEuint256(0));
+        }
+
         uint256[] memory cts = new uint256[](2);
-        cts[0] = Gateway.toUint256(_quantity);
-        cts[1] = Gateway.toUint256(_price);
-        uint256 requestID = Gateway.requestDecryption(
-            cts,
-            this.callbackDecrypted.selector,
-            0,
-            block.timestamp + 2 hours,
-            false
-        );
-        requestIds.push(requestID);
-        addParamsAddress(requestID, _bidder);
-        emit DecryptionRequested(requestID, _bidder);
+        cts[0] = Gateway.toUint256(encryptedQuantity);
+        cts[1] = Gateway.toUint256(encryptedPrice);
+        requestID = _requestDecryption(cts, this.callbackDecrypted.selector);
+        addParamsUint256(requestID, index);
+        emit DecryptionRequested(requestID, bid.bidder);
     }
 
     /// @notice Callback function to handle decrypted bid data
+    /// @dev The request must be the current request of the bid slot it was sent for, a replaced request is rejected
     function callbackDecrypted(uint256 requestId, uint256 _quantity, uint256 _price) public onlyGateway {
         if (isDecrypted[requestId]) revert AlreadyDecrypted();
-        address[] memory params = getParamsAddress(requestId);
-        if (params.length == 0) revert InvalidParams();
-        address bidder = params[0];
+        uint256[] memory params = getParamsUint256(requestId);
+        if (params.length == 0 || requestIds[params[0]] != requestId) revert InvalidParams();
+        address bidder = bids[params[0]].bidder;
+
+        decryptedBids[params[0]] = DecryptedBid(bidder, _quantity, _price);
+        emit DecryptionCompleted(requestId, bidder, _quantity, _price);
+        _markDecrypted(requestId);
+    }
+
+    /// @notice Request the decryption of a fresh FHE random number used to order ties
+    function _requestRandomSeed() private returns (uint256) {
+        uint256[] memory cts = new uint256[](1);
+        cts[0] = Gateway.toUint256(TFHE.randEuint64());
+        return _requestDecryption(cts, this.callbackRandomSeed.selector);
+    }
+
+    /// @notice Sends a decryption request to the Gateway and records its deadline
+    function _requestDecryption(uint256[] memory cts, bytes4 callbackSelector) private returns (uint256 requestID) {
+        uint256 deadline = block.timestamp + DECRYPTION_TIMEOUT;
+        requestID = Gateway.requestDecryption(cts, callbackSelector, 0, deadline, false);
+        requestDeadline[requestID] = deadline;
+        decryptionDeadline = deadline;
+    }
 
-        decryptedBids.push(DecryptedBid(bidder, _quantity, _price));
+    /// @notice Whether the Gateway can no longer fulfil a decryption request
+    function _isExpired(uint256 requestId) private view returns (bool) {
+        return !isDecrypted[requestId] && block.timestamp > requestDeadline[requestId];
+    }
+
+    /// @notice Positions in requestIds of the requests that expired before being fulfilled. Position i is the request
+    /// of the bid i, the random seed request comes after the bids. With a confidential asset, the clearing price
+    /// request is the only one
+    function getExpiredRequests() public view returns (uint256[] memory positions) {
+        uint256 count;
+        for (uint256 i = 0; i < requestIds.length; i++) {
+            if (_isExpired(requestIds[i])) count++;
+        }
+        positions = new uint256[](count);
+        count = 0;
+        for (uint256 i = 0; i < requestIds.length; i++) {
+            if (_isExpired(requestIds[i])) positions[count++] = i;
+        }
+    }
+
+    /// @notice Request again the decryption of expired requests, see getExpiredRequests
+    /// @param positions Positions in requestIds of the expired requests, each one is replaced by the new request
+    function retryDecryption(uint256[] calldata positions) external inPhase(AuctionPhase.Decrypting) {
+        bool hasReserve = TFHE.isInitialized(reservePrice);
+        for (uint256 i = 0; i < positions.length; i++) {
+            uint256 position = positions[i];
+            if (position >= requestIds.length || !_isExpired(requestIds[position])) revert DecryptionNotExpired();
+            if (confidentialAsset) {
+                requestIds[position] = _requestClearingPrice();
+            } else if (position < bids.length) {
+                requestIds[position] = _requestBidDecryption(position, hasReserve);
+            } else {
+                requestIds[position] = _requestRandomSeed();
+            }
+        }
+    }
+
+    /// @notice Callback function to handle the decrypted random seed
+    /// @dev Only the current request of the seed slot, right after the bids, is accepted
+    function callbackRandomSeed(uint256 requestId, uint64 _seed) public onlyGateway {
+        if (isDecrypted[requestId]) revert AlreadyDecrypted();
+        if (requestIds.length <= bids.length || requestIds[bids.length] != requestId) revert InvalidParams();
+        randomSeed = _seed;
+        _markDecrypted(requestId);
+    }
+
+    /// @notice Callback function to handle the clearing price decrypted with a confidential asset
+    function callbackClearingPrice(uint256 requestId, uint256 _price) public onlyGateway {
+        if (isDecrypted[requestId]) revert AlreadyDecrypted();
+        if (!confidentialAsset || requestIds[0] != requestId) revert InvalidParams();
+        settlementPrice = _price;
+        _markDecrypted(requestId);
+    }
+
+    /// @notice Records a fulfilled decryption request, the auction is Decrypted once every request is fulfilled
+    function _markDecrypted(uint256 requestId) private {
         isDecrypted[requestId] = true;
+        decryptedCount++;
 
-        emit DecryptionCompleted(requestId, bidder, _quantity, _price);
+        if (settled && decryptedCount == requestIds.length && phase == AuctionPhase.Decrypting) {
+            _setPhase(AuctionPhase.Decrypted);
+        }
     }
 
-    function distributeFunds() external onlyOwner auctionEnded {
-        if (!checkAllDecrypted()) revert NotAllDecrypted();
-        internalDistributeFunds();
+    /// @notice Distribute the next batch of bids of the clearing order, then record the refunds of the locked
+    /// participants. The auction is Distributed once both are done
+    /// @dev With a confidential asset the bids were allocated when settled and there is no bid to distribute, each
+    /// participant costs about 1.7M FHE gas and batches must fit the 10M FHE gas block limit. Anyone can distribute,
+    /// the result only depends on the verified clearing order
+    /// @param batchSize Maximum number of bids and participants processed in this transaction
+    function distributeFunds(uint256 batchSize) external nonReentrant inPhase(AuctionPhase.Decrypted) {
+        if (clearingOrder.length != decryptedBids.length) revert InvalidClearingOrder();
+        if (batchSize == 0) revert InvalidBatch();
+        uint256 decimals = paymentToken == address(0) ? 18 : ERC20(paymentToken).decimals();
+
+        uint256 start = distributedBids;
+        uint256 end = Math.min(start + batchSize, clearingOrder.length);
+        for (uint256 i = start; i < end; i++) {
+            _distributeBid(decryptedBids[clearingOrder[i]], decimals);
+        }
+        distributedBids = end;
+        if (end < clearingOrder.length) return;
+
+        _processRefunds(batchSize - (end - start));
+    }
+
+    /// @notice Allocates the confidential asset to a bid, the allocation computed by homomorphic clearing is added to
+    /// the encrypted allocation of the bidder without being decrypted, see EncryptedAllocation.allocate
+    function _allocateEncrypted(uint256 index) private {
+        EncryptedBid storage bid = bids[index];
+        (euint256 allocation, euint256 soldPrice) = HomomorphicClearing.allocate(
+            clearing,
+            index,
+            quantity,
+            bid.encryptedQuantity,
+            bid.encryptedPrice
+        );
+        EncryptedAllocation.allocate(confidentialAllocation, asset, quantity, bid.bidder, allocation, soldPrice);
+        // The clearing price is decrypted once the last bid is allocated
+        if (index == bids.length - 1) requestIds.push(_requestClearingPrice());
+    }
+
+    /// @notice Request the decryption of the clearing price of a confidential asset, the only value decrypted
+    function _requestClearingPrice() private returns (uint256) {
+        uint256[] memory cts = new uint256[](1);
+        cts[0] = Gateway.toUint256(confidentialAllocation.clearingPrice);
+        return _requestDecryption(cts, this.callbackClearingPrice.selector);
+    }
+
+    /// @notice Get the clearing order submitted so far
+    function getClearingOrder() public view returns (uint256[] memory) {
+        return clearingOrder;
     }
 
     /// @notice Check if all decryption requests are completed
@@ -328,9 +1010,16 @@ contract PrivateSinglePriceAuction is SepoliaZamaFHEVMConfig, SepoliaZamaGateway
 
     /// @notice Lock funds for bidding
     /// @param amount Amount of funds to lock
-    function lockFunds(uint256 amount) external payable nonReentrant activeAuction {
+    /// @param allowlistProof Merkle proof of the caller in the allowlist, empty when there is none
+    function lockFunds(
+        uint256 amount,
+        bytes32[] calldata allowlistProof
+    ) external payable nonReentrant activeAuction onlyAllowlisted(allowlistProof) {
         if (amount == 0) revert ZeroAmount();
+        if (confidentialPayment) revert WrongPaymentMode();
 
+        // Participants are listed once, when they lock funds for the first time
+        if (lockedFunds[msg.sender] == 0) lockedParticipant.push(msg.sender);
         if (paymentToken == address(0)) {
             if (msg.value != amount) revert EtherAmountMismatch();
             lockedFunds[msg.sender] += msg.value;
@@ -338,7 +1027,31 @@ contract PrivateSinglePriceAuction is SepoliaZamaFHEVMConfig, SepoliaZamaGateway
             if (!ERC20(paymentToken).transferFrom(msg.sender, address(this), amount)) revert ERC20TransferFailed();
             lockedFunds[msg.sender] += amount;
         }
-        lockedParticipant.push(msg.sender);
+    }
+
+    /// @notice Lock an encrypted amount of a confidential payment token for bidding, the amount must be approved first
+    /// @dev A ConfidentialERC20 transfers 0 instead of reverting when the allowance or the balance is insufficient, the
+    /// amount locked is the increase of the auction balance. It is only known to the bidder and the auction
+    /// @param encryptedAmount Encrypted amount of funds to lock
+    /// @param inputProof Proof for encryption
+    /// @param allowlistProof Merkle proof of the caller in the allowlist, empty when there is none
+    function lockEncryptedFunds(
+        einput encryptedAmount,
+        bytes calldata inputProof,
+        bytes32[] calldata allowlistProof
+    ) external nonReentrant activeAuction onlyAllowlisted(allowlistProof) {
+        if (!confidentialPayment) revert WrongPaymentMode();
+        euint64 amount = TFHE.asEuint64(encryptedAmount, inputProof);
+
+        // Participants are listed once, when they lock funds for the first time
+        euint64 locked = encryptedLockedFunds[msg.sender];
+        if (!TFHE.isInitialized(locked)) lockedParticipant.push(msg.sender);
+        (encryptedLockedFunds[msg.sender], encryptedCollateral[msg.sender]) = EncryptedFunds.lock(
+            paymentToken,
+            amount,
+            locked,
+            encryptedCollateral[msg.sender]
+        );
     }
 
     /// @notice Get all encrypted bids
@@ -358,6 +1071,37 @@ contract PrivateSinglePriceAuction is SepoliaZamaFHEVMConfig, SepoliaZamaGateway
     }
 
     function isActive() public view returns (bool) {
-        return block.timestamp >= startTime && block.timestamp <= endTime;
+        return getPhase() == AuctionPhase.Open;
+    }
+
+    /// @notice Current phase of the auction
+    function getPhase() public view returns (AuctionPhase) {
+        if (phase >= AuctionPhase.Decrypting) return phase;
+        if (block.timestamp < startTime) return AuctionPhase.Pending;
+        if (block.timestamp <= endTime) return AuctionPhase.Open;
+        return AuctionPhase.Closed;
+    }
+
+    /// @dev Out of the modifiers, which are inlined in every function using them
+    function _requirePhase(AuctionPhase expected) private view {
+        AuctionPhase current = getPhase();
+        if (current != expected) revert InvalidPhase(expected, current);
+    }
+
+    function _requireActive() private view {
+        if (getPhase() != AuctionPhase.Open) revert AuctionNotActive();
+    }
+
+    /// @dev Leaves are the double hash of the abi-encoded address, as built by the allowlistProofs task
+    function _requireAllowlisted(bytes32[] calldata proof) private view {
+        if (allowlistRoot == bytes32(0)) return;
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        if (!MerkleProof.verifyCalldata(proof, allowlistRoot, leaf)) revert NotAllowlisted();
+    }
+
+    /// @notice Moves the auction to a new phase and logs the transition
+    function _setPhase(AuctionPhase newPhase) private {
+        emit PhaseChanged(getPhase(), newPhase);
+        phase = newPhase;
     }
 }
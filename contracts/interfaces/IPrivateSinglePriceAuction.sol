@@ -27,12 +27,26 @@ interface IPrivateSinglePriceAuction {
 
     function paymentToken() external view returns (address);
 
+    function confidentialPayment() external view returns (bool);
+
+    function confidentialAsset() external view returns (bool);
+
+    function homomorphicClearing() external view returns (bool);
+
     function quantity() external view returns (uint256);
 
     function startTime() external view returns (uint256);
 
     function endTime() external view returns (uint256);
 
+    function extensionWindow() external view returns (uint256);
+
+    function extensionDuration() external view returns (uint256);
+
+    function maxEndTime() external view returns (uint256);
+
+    function allowlistRoot() external view returns (bytes32);
+
     function bids(
         uint256 index
     ) external view returns (address bidder, euint256 encryptedQuantity, euint256 encryptedPrice);
@@ -43,14 +57,32 @@ interface IPrivateSinglePriceAuction {
 
     function settlementPrice() external view returns (uint256);
 
+    function reservePrice() external view returns (euint256);
+
     function isDecrypted(uint256 requestId) external view returns (bool);
 
     function hasParticipated(address bidder) external view returns (bool);
 
+    function bidCount(address bidder) external view returns (uint256);
+
+    function bidAccepted(address bidder) external view returns (ebool);
+
     function lockedParticipant(uint256 index) external view returns (address);
 
     function lockedFunds(address participant) external view returns (uint256);
 
+    function encryptedLockedFunds(address participant) external view returns (euint64);
+
+    function encryptedRefund(address participant) external view returns (euint64);
+
+    function encryptedAllocation(address bidder) external view returns (euint64);
+
+    function encryptedProceeds() external view returns (euint64);
+
+    function encryptedUnsold() external view returns (euint64);
+
+    function comparedPairs() external view returns (uint256);
+
     function settled() external view returns (bool);
 
     function active() external view returns (bool);
@@ -58,25 +90,54 @@ interface IPrivateSinglePriceAuction {
     // Events
     event AuctionCreated(address indexed asset, address indexed paymentToken, uint256 quantity);
     event EncryptedBidPlaced(address indexed bidder, euint256 quantity, euint256 price);
+    event BidChecked(address indexed bidder, ebool accepted);
     event AuctionSettled(euint256 settlementPrice);
+    event AuctionExtended(uint256 endTime);
+    event AllowlistRootUpdated(bytes32 root);
     event Withdrawal(address indexed recipient, uint256 amount);
 
     // Functions
     function placeEncryptedBid(
         einput _encryptedQuantity,
         einput _encryptedPrice,
-        bytes calldata _inputProof
+        bytes calldata _inputProof,
+        bytes32[] calldata _allowlistProof
     ) external returns (bool);
 
-    function placeBid(euint256 encryptedQuantity, euint256 encryptedPrice) external;
+    function placeEncryptedBidLadder(
+        einput[] calldata _encryptedQuantities,
+        einput[] calldata _encryptedPrices,
+        bytes calldata _inputProof,
+        bytes32[] calldata _allowlistProof
+    ) external returns (bool);
+
+    function placeBid(euint256 encryptedQuantity, euint256 encryptedPrice, bytes32[] calldata allowlistProof) external;
+
+    function lockFunds(uint256 amount, bytes32[] calldata allowlistProof) external payable;
 
-    function lockFunds(uint256 amount) external payable;
+    function lockEncryptedFunds(
+        einput encryptedAmount,
+        bytes calldata inputProof,
+        bytes32[] calldata allowlistProof
+    ) external;
 
-    function settleAuction() external;
+    function setAllowlistRoot(bytes32 _root) external;
 
-    function requestDecryption(uint256 nbOfRequests, euint256 nbToDecrypt, address bidder) external;
+    function compareBids(uint256 batchSize) external;
 
-    function callbackDecrypted(uint256 requestId, uint256 decryptedInput) external returns (uint256);
+    function settleAuction(uint256 batchStart, uint256 batchSize) external;
+
+    function submitClearingOrder(uint256[] calldata bidIndexes) external;
+
+    function distributeFunds(uint256 batchSize) external;
+
+    function callbackDecrypted(uint256 requestId, uint256 _quantity, uint256 _price) external;
 
     function checkAllDecrypted() external view returns (bool);
+
+    function claim() external;
+
+    function claimProceeds() external;
+
+    function cancelAuction() external;
 }
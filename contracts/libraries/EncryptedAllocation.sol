@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "fhevm/lib/TFHE.sol";
+import "fhevm-contracts/contracts/token/ERC20/IConfidentialERC20.sol";
+
+/// @notice Allocates a confidential asset to the bids without decrypting their quantities or prices
+/// @dev Linked as an external library to keep PrivateSinglePriceAuction below the contract size limit. Its functions
+/// run with DELEGATECALL, so the handles are computed and allowed for the auction
+library EncryptedAllocation {
+    struct State {
+        euint64 supply; // Asset held by the auction, capped to the quantity sold, read on the first allocation
+        euint64 filled; // Asset allocated to the bids visited so far
+        euint256 clearingPrice; // Clearing price once a bid is allocated something, 0 until then
+        mapping(address => euint64) allocations; // Asset allocated to each bidder
+        euint64 proceeds; // Payments of the allocations computed so far, allowed to the owner
+    }
+
+    /// @notice Adds the encrypted allocation of a bid, computed by HomomorphicClearing, to the allocation of its
+    /// bidder, capped to what is left of the supply in case the deposit of the owner failed
+    /// @dev About 1M FHE gas per bid
+    /// @param soldPrice Encrypted clearing price when the bid is allocated something, 0 otherwise
+    function allocate(
+        State storage self,
+        address asset,
+        uint256 quantity,
+        address bidder,
+        euint256 encryptedAllocation,
+        euint256 soldPrice
+    ) external {
+        euint64 remaining = TFHE.sub(_supply(self, asset, quantity), self.filled);
+        euint64 allocated = TFHE.min(TFHE.asEuint64(encryptedAllocation), remaining);
+        euint256 clearingPrice = TFHE.isInitialized(self.clearingPrice) ? self.clearingPrice : TFHE.asEuint256(0);
+        self.clearingPrice = TFHE.select(TFHE.gt(allocated, 0), soldPrice, clearingPrice);
+        self.filled = TFHE.add(self.filled, allocated);
+        euint64 allocation = TFHE.add(self.allocations[bidder], allocated);
+        self.allocations[bidder] = allocation;
+
+        TFHE.allowThis(self.clearingPrice);
+        TFHE.allowThis(self.filled);
+        TFHE.allowThis(allocation);
+        TFHE.allow(allocation, bidder);
+    }
+
+    /// @notice Asset left once every bid is allocated, allowed to the owner
+    function unsold(State storage self, address asset, uint256 quantity, address owner) external returns (euint64) {
+        euint64 amount = TFHE.sub(_supply(self, asset, quantity), self.filled);
+        TFHE.allowThis(amount);
+        TFHE.allow(amount, owner);
+        return amount;
+    }
+
+    /// @notice Payment for the allocation of a bidder at the clearing price, in payment token units, added to the
+    /// proceeds. Computed on 128 bits as the product can exceed 64 bits, the result never does as the locked funds
+    /// cover the whole quantity bid
+    function payment(
+        State storage self,
+        address bidder,
+        uint256 price,
+        uint256 decimals,
+        address owner
+    ) external returns (euint64 amount) {
+        euint128 cost = TFHE.mul(TFHE.asEuint128(self.allocations[bidder]), SafeCast.toUint128(price));
+        amount = TFHE.asEuint64(TFHE.div(cost, SafeCast.toUint128(10 ** decimals)));
+        self.proceeds = TFHE.add(self.proceeds, amount);
+        TFHE.allowThis(amount);
+        TFHE.allowThis(self.proceeds);
+        TFHE.allow(self.proceeds, owner);
+    }
+
+    /// @dev A ConfidentialERC20 transfers 0 instead of reverting, so the deposit made at creation is not trusted and
+    /// the supply is the balance of the auction
+    function _supply(State storage self, address asset, uint256 quantity) private returns (euint64) {
+        if (!TFHE.isInitialized(self.supply)) {
+            euint64 balance = IConfidentialERC20(asset).balanceOf(address(this));
+            self.supply = TFHE.min(balance, SafeCast.toUint64(quantity));
+            TFHE.allowThis(self.supply);
+        }
+        return self.supply;
+    }
+}
@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "fhevm/lib/TFHE.sol";
+import "fhevm-contracts/contracts/token/ERC20/IConfidentialERC20.sol";
+
+/// @notice Checks the encrypted bids against the locked funds and locks encrypted funds of a confidential payment token
+/// @dev Linked as an external library to keep PrivateSinglePriceAuction below the contract size limit. Its functions
+/// run with DELEGATECALL, so the handles are computed and allowed for the auction and msg.sender is the bidder
+library EncryptedFunds {
+    /// @notice Zeroes a tranche whose cost, added to the cost of the bidder's other tranches, exceeds the collateral.
+    /// The tranche and whether it was accepted are allowed to the bidder
+    /// @param otherTranchesCost Encrypted price * quantity committed by the bidder's other tranches
+    /// @param collateral Encrypted locked funds scaled by the payment token decimals
+    /// @return quantity Encrypted quantity of the tranche, 0 when the funds are insufficient
+    /// @return price Encrypted price of the tranche, 0 when the funds are insufficient
+    /// @return committed Encrypted cost of all the bidder's tranches kept
+    /// @return accepted Encrypted true when the funds cover the tranche
+    function checkBid(
+        euint256 encryptedQuantity,
+        euint256 encryptedPrice,
+        euint256 otherTranchesCost,
+        euint256 collateral
+    ) external returns (euint256 quantity, euint256 price, euint256 committed, ebool accepted) {
+        euint256 totalCost = TFHE.add(otherTranchesCost, TFHE.mul(encryptedPrice, encryptedQuantity));
+
+        // Check if user has locked enough funds (in encrypted space)
+        accepted = TFHE.le(totalCost, collateral);
+
+        // If insufficient funds, bid quantities are set to 0 while maintaining privacy
+        quantity = TFHE.select(accepted, encryptedQuantity, TFHE.asEuint256(0));
+        price = TFHE.select(accepted, encryptedPrice, TFHE.asEuint256(0));
+        committed = TFHE.select(accepted, totalCost, otherTranchesCost);
+
+        // Grant necessary TFHE permissions for later decryption
+        TFHE.allowThis(quantity);
+        TFHE.allowThis(price);
+        TFHE.allowThis(committed);
+        TFHE.allowThis(accepted);
+        TFHE.allow(quantity, msg.sender);
+        TFHE.allow(price, msg.sender);
+        TFHE.allow(accepted, msg.sender);
+    }
+
+    /// @notice Pulls an approved encrypted amount of a confidential token from the bidder and adds what was received to
+    /// its locked funds and collateral. The locked funds are allowed to the bidder
+    /// @dev A ConfidentialERC20 transfers 0 instead of reverting when the allowance or the balance is insufficient, the
+    /// amount locked is the increase of the auction balance
+    function lock(
+        address token,
+        euint64 amount,
+        euint64 locked,
+        euint256 collateral
+    ) external returns (euint64 newLocked, euint256 newCollateral) {
+        euint64 balanceBefore = IConfidentialERC20(token).balanceOf(address(this));
+        TFHE.allowTransient(amount, token);
+        IConfidentialERC20(token).transferFrom(msg.sender, address(this), amount);
+        euint64 received = TFHE.sub(IConfidentialERC20(token).balanceOf(address(this)), balanceBefore);
+
+        newLocked = TFHE.add(locked, received);
+        newCollateral = TFHE.add(
+            collateral,
+            TFHE.mul(TFHE.asEuint256(received), 10 ** IConfidentialERC20(token).decimals())
+        );
+        TFHE.allowThis(newLocked);
+        TFHE.allow(newLocked, msg.sender);
+        TFHE.allowThis(newCollateral);
+    }
+
+    /// @notice Moves the encrypted funds locked by a participant, less its payment when initialized, to its encrypted
+    /// refund, allowed to the participant
+    function refund(
+        mapping(address => euint64) storage lockedFunds,
+        mapping(address => euint64) storage refunds,
+        address participant,
+        euint64 payment
+    ) external {
+        euint64 locked = lockedFunds[participant];
+        euint64 amount = TFHE.isInitialized(payment) ? TFHE.sub(locked, payment) : locked;
+        lockedFunds[participant] = euint64.wrap(0);
+        refunds[participant] = amount;
+        TFHE.allowThis(amount);
+        TFHE.allow(amount, participant);
+    }
+
+    /// @notice Transfers the encrypted allocation of a confidential asset and the encrypted refund of a participant,
+    /// returns false when it has neither
+    /// @dev A ConfidentialERC20 transfer never reverts on insufficient balance, the auction always holds these funds
+    function claim(
+        mapping(address => euint64) storage allocations,
+        mapping(address => euint64) storage refunds,
+        address asset,
+        address paymentToken,
+        address participant
+    ) external returns (bool) {
+        euint64 assetAmount = allocations[participant];
+        euint64 refundAmount = refunds[participant];
+        allocations[participant] = euint64.wrap(0);
+        refunds[participant] = euint64.wrap(0);
+        if (TFHE.isInitialized(assetAmount)) _transfer(asset, participant, assetAmount);
+        if (TFHE.isInitialized(refundAmount)) _transfer(paymentToken, participant, refundAmount);
+        return TFHE.isInitialized(assetAmount) || TFHE.isInitialized(refundAmount);
+    }
+
+    function _transfer(address token, address to, euint64 amount) private {
+        TFHE.allowTransient(amount, token);
+        IConfidentialERC20(token).transfer(to, amount);
+    }
+}
@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "fhevm/lib/TFHE.sol";
+
+/// @notice Computes the clearing price and the allocation of every bid on encrypted bids, so that only the clearing
+/// price and the allocations are decrypted, or only the clearing price with a confidential asset
+/// @dev Linked as an external library to keep PrivateSinglePriceAuction below the contract size limit. Its functions
+/// run with DELEGATECALL, so the handles are computed and allowed for the auction.
+/// The clearing price is the lowest price of a bid whose demand strictly above its price is below the supply, which
+/// takes a comparison of every pair of bids. Bids at the clearing price are then filled in the bidding order.
+/// In second-price mode, a single pass over the bids finds the highest bid for the whole supply, which wins the lot
+/// at the second highest price
+library HomomorphicClearing {
+    struct State {
+        euint256 rowDemand; // Quantity bid strictly above the price of the bid being compared
+        euint256 clearingPrice; // Lowest price of the bids compared so far that are allocated something
+        euint256 demandAbove; // Quantity bid strictly above the clearing price
+        euint256 remaining; // Quantity left for the bids at the clearing price allocated so far
+        euint256[] allocations; // Quantity allocated to each bid, in the bidding order
+        euint256[] soldPrices; // Clearing price for the bids allocated something, 0 for the others
+        bool secondPrice; // Whether the bids were ranked in second-price mode
+        euint256 secondHighest; // Second highest price ranked so far, at least the reserve price, in second-price mode
+        euint256 winner; // Index of the highest bid ranked so far, the earliest one on ties, in second-price mode
+    }
+
+    /// @notice Adds the quantity of a bid to the demand above the price of the bid being compared when it is higher
+    /// @dev About 0.57M FHE gas per pair
+    function compare(State storage self, euint256 price, euint256 otherPrice, euint256 otherQuantity) external {
+        euint256 above = TFHE.select(TFHE.gt(otherPrice, price), otherQuantity, TFHE.asEuint256(0));
+        self.rowDemand = TFHE.add(self.rowDemand, above);
+        TFHE.allowThis(self.rowDemand);
+    }
+
+    /// @notice Once a bid is compared to every other bid, lowers the clearing price to its price when the demand above
+    /// it leaves some supply, and starts the next bid
+    /// @dev About 1.3M FHE gas per bid. Zeroed bids and bids below the reserve price never set the clearing price
+    function closeRow(
+        State storage self,
+        euint256 price,
+        euint256 encryptedQuantity,
+        uint256 supply,
+        euint256 reservePrice
+    ) external {
+        if (!TFHE.isInitialized(self.clearingPrice)) {
+            self.clearingPrice = TFHE.asEuint256(type(uint256).max);
+            self.demandAbove = TFHE.asEuint256(0);
+        }
+        ebool filled = TFHE.and(TFHE.lt(self.rowDemand, supply), TFHE.gt(encryptedQuantity, 0));
+        if (TFHE.isInitialized(reservePrice)) filled = TFHE.and(filled, TFHE.ge(price, reservePrice));
+        ebool lower = TFHE.and(filled, TFHE.lt(price, self.clearingPrice));
+        self.clearingPrice = TFHE.select(lower, price, self.clearingPrice);
+        self.demandAbove = TFHE.select(lower, self.rowDemand, self.demandAbove);
+        self.rowDemand = euint256.wrap(0);
+        TFHE.allowThis(self.clearingPrice);
+        TFHE.allowThis(self.demandAbove);
+    }
+
+    /// @notice Second-price mode: ranks the next bid against the highest one so far. Bids for less than the whole
+    /// supply, zeroed bids and bids below the reserve price are ignored
+    /// @dev About 1.3M FHE gas per bid. clearingPrice holds the highest price
+    function rank(
+        State storage self,
+        uint256 index,
+        euint256 price,
+        euint256 encryptedQuantity,
+        uint256 supply,
+        euint256 reservePrice
+    ) external {
+        if (!self.secondPrice) {
+            self.secondPrice = true;
+            self.clearingPrice = TFHE.asEuint256(0);
+            self.secondHighest = TFHE.isInitialized(reservePrice) ? reservePrice : TFHE.asEuint256(0);
+            self.winner = TFHE.asEuint256(0);
+        }
+        ebool valid = TFHE.eq(encryptedQuantity, supply);
+        if (TFHE.isInitialized(reservePrice)) valid = TFHE.and(valid, TFHE.ge(price, reservePrice));
+        price = TFHE.select(valid, price, TFHE.asEuint256(0));
+
+        // The second highest price never goes below the reserve price it starts from
+        ebool higher = TFHE.gt(price, self.clearingPrice);
+        self.secondHighest = TFHE.max(self.secondHighest, TFHE.select(higher, self.clearingPrice, price));
+        self.clearingPrice = TFHE.select(higher, price, self.clearingPrice);
+        self.winner = TFHE.select(higher, TFHE.asEuint256(index), self.winner);
+        TFHE.allowThis(self.secondHighest);
+        TFHE.allowThis(self.clearingPrice);
+        TFHE.allowThis(self.winner);
+    }
+
+    /// @notice Allocation of the next bid in the bidding order, or the one already computed for a bid
+    /// @dev About 1.4M FHE gas per bid, computed once so that a retried decryption gets the same allocation
+    /// @return allocation Encrypted quantity allocated to the bid
+    /// @return soldPrice Encrypted clearing price when the bid is allocated something, 0 otherwise
+    function allocate(
+        State storage self,
+        uint256 index,
+        uint256 supply,
+        euint256 encryptedQuantity,
+        euint256 price
+    ) external returns (euint256 allocation, euint256 soldPrice) {
+        if (index < self.allocations.length) return (self.allocations[index], self.soldPrices[index]);
+        if (self.secondPrice) {
+            // The highest bid takes the whole supply at the second highest price, the other bids nothing
+            ebool won = TFHE.and(TFHE.eq(self.winner, index), TFHE.gt(self.clearingPrice, 0));
+            allocation = TFHE.select(won, TFHE.asEuint256(supply), TFHE.asEuint256(0));
+            soldPrice = TFHE.select(won, self.secondHighest, TFHE.asEuint256(0));
+        } else {
+            (allocation, soldPrice) = _allocateMultiUnit(self, supply, encryptedQuantity, price);
+        }
+        self.allocations.push(allocation);
+        self.soldPrices.push(soldPrice);
+        TFHE.allowThis(allocation);
+        TFHE.allowThis(soldPrice);
+    }
+
+    /// @notice Bids above the clearing price are filled, bids at the clearing price share what the others left
+    function _allocateMultiUnit(
+        State storage self,
+        uint256 supply,
+        euint256 encryptedQuantity,
+        euint256 price
+    ) private returns (euint256 allocation, euint256 soldPrice) {
+        if (!TFHE.isInitialized(self.remaining)) self.remaining = TFHE.sub(supply, self.demandAbove);
+
+        euint256 clearingPrice = self.clearingPrice;
+        euint256 tiedAllocation = TFHE.select(
+            TFHE.eq(price, clearingPrice),
+            TFHE.min(encryptedQuantity, self.remaining),
+            TFHE.asEuint256(0)
+        );
+        allocation = TFHE.select(TFHE.gt(price, clearingPrice), encryptedQuantity, tiedAllocation);
+        soldPrice = TFHE.select(TFHE.gt(allocation, 0), clearingPrice, TFHE.asEuint256(0));
+        self.remaining = TFHE.sub(self.remaining, tiedAllocation);
+        TFHE.allowThis(self.remaining);
+    }
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "fhevm/config/ZamaFHEVMConfig.sol";
+import "fhevm-contracts/contracts/token/ERC20/ConfidentialERC20.sol";
+
+/// @notice Confidential payment token with 6 decimals, anyone can mint plaintext amounts
+contract MockConfidentialERC20 is SepoliaZamaFHEVMConfig, ConfidentialERC20 {
+    constructor(string memory name, string memory symbol) ConfidentialERC20(name, symbol) {}
+
+    function mint(address to, uint64 amount) external {
+        _unsafeMint(to, amount);
+        _totalSupply += amount;
+    }
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./MockERC20.sol";
+
+/// @notice Asset matching the decimals of a payment token other than 18, such as a confidential token
+contract MockERC20WithDecimals is MockERC20 {
+    uint8 private immutable DECIMALS;
+
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply,
+        uint8 decimals_
+    ) MockERC20(name, symbol, initialSupply) {
+        DECIMALS = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return DECIMALS;
+    }
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "fhevm/lib/TFHE.sol";
+import "../interfaces/IPrivateSinglePriceAuction.sol";
+
+/// @notice Bidder contract rejecting any Ether transfer, used to test that refunds cannot block a settlement
+contract RejectingBidder {
+    IPrivateSinglePriceAuction public auction;
+
+    constructor(address _auction) {
+        auction = IPrivateSinglePriceAuction(_auction);
+    }
+
+    function lockFunds() external payable {
+        auction.lockFunds{ value: msg.value }(msg.value, new bytes32[](0));
+    }
+
+    function placeEncryptedBid(einput _encryptedQuantity, einput _encryptedPrice, bytes calldata _inputProof) external {
+        auction.placeEncryptedBid(_encryptedQuantity, _encryptedPrice, _inputProof, new bytes32[](0));
+    }
+
+    function claim() external {
+        auction.claim();
+    }
+
+    receive() external payable {
+        revert("Ether not accepted");
+    }
+}
@@ -6,10 +6,24 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
-  // Deploy AuctionFactory
+  // Deploy the auction implementations cloned by AuctionFactory, linked to the auction libraries
+  const libraries: Record<string, string> = {};
+  for (const name of ["EncryptedAllocation", "EncryptedFunds", "HomomorphicClearing"]) {
+    libraries[name] = (await deploy(name, { from: deployer, log: true })).address;
+  }
+  const auctionImplementation = await deploy("PrivateSinglePriceAuction", {
+    from: deployer,
+    libraries,
+    log: true,
+  });
+  const dutchAuctionImplementation = await deploy("PrivateDutchAuction", {
+    from: deployer,
+    libraries: { EncryptedFunds: libraries.EncryptedFunds },
+    log: true,
+  });
   const auctionFactory = await deploy("AuctionFactory", {
     from: deployer,
-    args: [],
+    args: [auctionImplementation.address, dutchAuctionImplementation.address],
     log: true,
   });
   console.log(`AuctionFactory contract deployed at: ${auctionFactory.address}`);
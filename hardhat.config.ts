@@ -9,10 +9,17 @@ import type { NetworkUserConfig } from "hardhat/types";
 import CustomProvider from "./CustomProvider";
 // Adjust the import path as needed
 import "./tasks/accounts";
+import "./tasks/allowlist";
+import "./tasks/auctionPhase";
 import "./tasks/bidERC20Example";
+import "./tasks/cancelAuction";
+import "./tasks/claim";
 import "./tasks/createAuction";
 import "./tasks/endAuction";
 import "./tasks/etherscanVerify";
+import "./tasks/listAuctions";
+import "./tasks/manageBid";
+import "./tasks/runAuction";
 import { setCodeMocked } from "./test/mockedSetup";
 
 extendProvider(async (provider) => {
@@ -122,6 +129,7 @@ const config: HardhatUserConfig = {
         runs: 800,
       },
       evmVersion: "cancun",
+      viaIR: true,
     },
   },
   etherscan: {
@@ -0,0 +1,39 @@
+import type { Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { AuctionFactory } from "../types";
+
+// Libraries linked to the auction implementations
+export const AUCTION_LIBRARIES = ["EncryptedAllocation", "EncryptedFunds", "HomomorphicClearing"] as const;
+
+// Deploys the auction libraries and the implementations the factory clones, linked to them
+export async function deployAuctionImplementations(hre: HardhatRuntimeEnvironment, deployer: Signer) {
+  const { ethers } = hre;
+  const libraries: Record<string, string> = {};
+  for (const name of AUCTION_LIBRARIES) {
+    const library = await (await ethers.getContractFactory(name)).connect(deployer).deploy();
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+  }
+  const PrivateSinglePriceAuction = await ethers.getContractFactory("PrivateSinglePriceAuction", { libraries });
+  const auctionImplementation = await PrivateSinglePriceAuction.connect(deployer).deploy();
+  await auctionImplementation.waitForDeployment();
+  const PrivateDutchAuction = await ethers.getContractFactory("PrivateDutchAuction", {
+    libraries: { EncryptedFunds: libraries.EncryptedFunds },
+  });
+  const dutchAuctionImplementation = await PrivateDutchAuction.connect(deployer).deploy();
+  await dutchAuctionImplementation.waitForDeployment();
+  return { auctionImplementation, dutchAuctionImplementation };
+}
+
+// Deploys the factory cloning fresh auction implementations, the deployer becomes the guardian
+export async function deployAuctionFactory(hre: HardhatRuntimeEnvironment, deployer: Signer): Promise<AuctionFactory> {
+  const { auctionImplementation, dutchAuctionImplementation } = await deployAuctionImplementations(hre, deployer);
+  const AuctionFactory = await hre.ethers.getContractFactory("AuctionFactory");
+  const auctionFactory = await AuctionFactory.connect(deployer).deploy(
+    await auctionImplementation.getAddress(),
+    await dutchAuctionImplementation.getAddress(),
+  );
+  await auctionFactory.waitForDeployment();
+  return auctionFactory;
+}
@@ -0,0 +1,408 @@
+import { AbiCoder, ContractTransactionReceipt, Signer, ZeroAddress, keccak256 } from "ethers";
+import { FhevmInstance } from "fhevmjs/node";
+
+import { reencryptEbool, reencryptEuint64 } from "../../test/reencrypt";
+import {
+  ERC20__factory,
+  IConfidentialERC20__factory,
+  PrivateSinglePriceAuction,
+  PrivateSinglePriceAuction__factory,
+} from "../../types";
+import { TypedContractEvent, TypedListener } from "../../types/common";
+import {
+  Amount,
+  AuctionPhase,
+  AuctionStatus,
+  BidParams,
+  Claimable,
+  MyBid,
+  Pricing,
+  TieBreaking,
+  Unsubscribe,
+} from "./types";
+import { toUnits, tokenDecimals, waitForReceipt } from "./utils";
+
+export class AuctionClient {
+  readonly address: string;
+  readonly contract: PrivateSinglePriceAuction;
+  private paymentToken?: string;
+  private confidentialPayment?: boolean;
+  private paymentDecimals?: bigint;
+  private assetDecimals?: bigint;
+
+  constructor(address: string, readonly signer: Signer, readonly fhevm?: FhevmInstance) {
+    this.address = address;
+    this.contract = PrivateSinglePriceAuction__factory.connect(address, signer);
+  }
+
+  /** Returns a client for the same auction acting on behalf of another signer */
+  connect(signer: Signer): AuctionClient {
+    return new AuctionClient(this.address, signer, this.fhevm);
+  }
+
+  /**
+   * Locks Ether or payment tokens in the auction, approving the ERC20 allowance first if needed. With a confidential
+   * payment token the amount is encrypted, for the allowance and for the auction. An auction with an allowlist needs
+   * the Merkle proof of the signer, see buildAllowlist
+   */
+  async lockFunds(amount: Amount, allowlistProof: string[] = []): Promise<ContractTransactionReceipt> {
+    const paymentToken = await this.getPaymentToken();
+    const value = toUnits(amount, await this.getPaymentDecimals());
+    if (paymentToken === ZeroAddress) {
+      return waitForReceipt(this.contract.lockFunds(value, allowlistProof, { value }));
+    }
+    if (await this.isConfidentialPayment()) {
+      const token = IConfidentialERC20__factory.connect(paymentToken, this.signer);
+      const allowance = await this.encryptAmount(paymentToken, value);
+      await waitForReceipt(
+        token["approve(address,bytes32,bytes)"](this.address, allowance.handles[0], allowance.inputProof),
+      );
+      const encrypted = await this.encryptAmount(this.address, value);
+      return waitForReceipt(
+        this.contract.lockEncryptedFunds(encrypted.handles[0], encrypted.inputProof, allowlistProof),
+      );
+    }
+    await waitForReceipt(ERC20__factory.connect(paymentToken, this.signer).approve(this.address, value));
+    return waitForReceipt(this.contract.lockFunds(value, allowlistProof));
+  }
+
+  /** Encrypts the price and quantity with the injected fhevm instance and places the bid */
+  async placeBid(bid: BidParams, allowlistProof: string[] = []): Promise<ContractTransactionReceipt> {
+    const encrypted = await this.encryptBid(bid);
+    return waitForReceipt(
+      this.contract.placeEncryptedBid(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, allowlistProof),
+    );
+  }
+
+  /**
+   * Places a demand curve of several tranches in one transaction, each tranche is allocated as a separate bid
+   * and all of them are collateralised by the same locked funds
+   */
+  async placeBidLadder(bids: BidParams[], allowlistProof: string[] = []): Promise<ContractTransactionReceipt> {
+    const encrypted = await this.encryptBids(bids);
+    const quantities = encrypted.handles.filter((_, i) => i % 2 === 0);
+    const prices = encrypted.handles.filter((_, i) => i % 2 === 1);
+    return waitForReceipt(
+      this.contract.placeEncryptedBidLadder(quantities, prices, encrypted.inputProof, allowlistProof),
+    );
+  }
+
+  /** Replaces one of the signer's tranches while the auction is open, the locked funds are checked again */
+  async updateBid(bid: BidParams, tranche = 0): Promise<ContractTransactionReceipt> {
+    const encrypted = await this.encryptBid(bid);
+    return waitForReceipt(
+      this.contract.updateBid(tranche, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof),
+    );
+  }
+
+  /** Withdraws all the signer's tranches, if any, and releases its locked funds while the auction is open */
+  async cancelBid(): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.cancelBid());
+  }
+
+  /**
+   * Requests the decryption of every bid, in batches of `batchSize` bids per transaction so that large auctions
+   * stay within the block gas limit (owner only). Resumes after the last batch already sent. With a reserve price,
+   * each bid costs about 0.42M FHE gas and a batch must fit the 10M FHE gas block limit.
+   * With homomorphic clearing, every pair of bids is compared first, `compareBatchSize` pairs per transaction, then
+   * each bid allocated before its decryption costs about 1.4M FHE gas, so `batchSize` should not exceed 7. With a
+   * confidential asset, each bid is also added to the encrypted allocations, about 2.4M FHE gas, so 4 bids per batch.
+   * In second-price mode, `compareBatchSize` bids are ranked per transaction instead, about 1.3M FHE gas each
+   */
+  async settle(batchSize = 20, compareBatchSize = 8): Promise<ContractTransactionReceipt[]> {
+    const receipts: ContractTransactionReceipt[] = [];
+    if (await this.contract.homomorphicClearing()) {
+      const count = BigInt((await this.contract.getAllBids()).length);
+      const comparisons = Number(await this.contract.pricing()) === Pricing.SecondPrice ? count : count ** 2n;
+      while ((await this.contract.comparedPairs()) < comparisons) {
+        receipts.push(await waitForReceipt(this.contract.compareBids(compareBatchSize)));
+      }
+    }
+    while (!(await this.contract.settled())) {
+      const batchStart = await this.contract.settledBids();
+      receipts.push(await waitForReceipt(this.contract.settleAuction(batchStart, batchSize)));
+    }
+    return receipts;
+  }
+
+  /**
+   * Requests again the decryption of the requests the Gateway let expire, returns null when none expired.
+   * Anyone can call it while the auction is Decrypting
+   */
+  async retryExpiredDecryptions(): Promise<ContractTransactionReceipt | null> {
+    const expired = await this.contract.getExpiredRequests();
+    if (expired.length === 0) return null;
+    return waitForReceipt(this.contract.retryDecryption([...expired]));
+  }
+
+  /**
+   * Cancels an auction whose decryption never completed, once the grace period after the last decryption deadline
+   * is over. Participants then claim their locked funds and the asset goes back to the owner
+   */
+  async abandonSettlement(): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.abandonSettlement());
+  }
+
+  /**
+   * Submits the clearing order computed off-chain, then allocates the asset to winners and records the payments
+   * and refunds to claim, in batches of `batchSize` per transaction (anyone). With a confidential asset the
+   * asset is already allocated, only the refunds are recorded
+   */
+  async distribute(batchSize = 50): Promise<ContractTransactionReceipt[]> {
+    const receipts: ContractTransactionReceipt[] = [];
+    const order = await this.computeClearingOrder();
+    const submitted = (await this.contract.getClearingOrder()).length;
+    for (let i = submitted; i < order.length; i += batchSize) {
+      receipts.push(await waitForReceipt(this.contract.submitClearingOrder(order.slice(i, i + batchSize))));
+    }
+    while ((await this.getPhase()) === AuctionPhase.Decrypted) {
+      receipts.push(await waitForReceipt(this.contract.distributeFunds(batchSize)));
+    }
+    return receipts;
+  }
+
+  /**
+   * Sorts the decrypted bids by decreasing price, bids at the same price by the tie key of the contract:
+   * the bid index, or a hash of the decrypted random seed and the index with the Random policy
+   */
+  async computeClearingOrder(): Promise<bigint[]> {
+    const [bids, tieBreaking, randomSeed] = await Promise.all([
+      this.contract.getAllDecryptedBids(),
+      this.contract.tieBreaking(),
+      this.contract.randomSeed(),
+    ]);
+    const coder = AbiCoder.defaultAbiCoder();
+    const tieKey = (index: number) =>
+      Number(tieBreaking) === TieBreaking.Random
+        ? BigInt(keccak256(coder.encode(["uint64", "uint256"], [randomSeed, index])))
+        : BigInt(index);
+    const compare = (a: bigint, b: bigint) => (a > b ? 1 : a < b ? -1 : 0);
+    return bids
+      .map((bid, index) => ({ price: bid.price, index, key: tieKey(index) }))
+      .sort((a, b) => compare(b.price, a.price) || compare(a.key, b.key))
+      .map(({ index }) => BigInt(index));
+  }
+
+  /** Withdraws the asset won and the unused locked funds of the signer once funds are distributed */
+  async claim(): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.claim());
+  }
+
+  /** Withdraws the payments collected and the unsold assets once funds are distributed (owner only) */
+  async claimProceeds(): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.claimProceeds());
+  }
+
+  /** Replaces the Merkle root of the addresses allowed to bid before the bidding closes (owner only) */
+  async setAllowlistRoot(root: string): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.setAllowlistRoot(root));
+  }
+
+  /** Cancels the auction before its settlement, the asset goes back to the owner (owner only) */
+  async cancel(): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.cancelAuction());
+  }
+
+  /**
+   * Asset and refund an address can claim, defaults to the signer. All locked funds are refunded on cancellation.
+   * Refunds of a confidential payment token are encrypted and not included, see encryptedRefund
+   */
+  async getClaimable(account?: string): Promise<Claimable> {
+    const address = account ?? (await this.signer.getAddress());
+    const [asset, refund, locked, phase] = await Promise.all([
+      this.contract.claimableAsset(address),
+      this.contract.claimableRefund(address),
+      this.contract.lockedFunds(address),
+      this.getPhase(),
+    ]);
+    return { asset, refund: phase === AuctionPhase.Cancelled ? refund + locked : refund };
+  }
+
+  /**
+   * Reencrypts the asset allocated to the signer when the asset is a ConfidentialERC20, only the winner can read its
+   * allocation. Returns 0 before the allocation and after the claim
+   */
+  async getEncryptedAllocation(): Promise<bigint> {
+    return this.reencrypt(await this.contract.encryptedAllocation(await this.signer.getAddress()));
+  }
+
+  /** Reencrypts the refund of a confidential payment token the signer can claim, 0 when none is recorded */
+  async getEncryptedRefund(): Promise<bigint> {
+    return this.reencrypt(await this.contract.encryptedRefund(await this.signer.getAddress()));
+  }
+
+  /**
+   * Reencrypts whether the locked funds covered the last tranche the signer placed or updated, false when it has no
+   * bid. A tranche not covered is zeroed: lock more funds and update it before the auction ends
+   */
+  async isBidAccepted(): Promise<boolean> {
+    const handle = await this.contract.bidAccepted(await this.signer.getAddress());
+    if (handle === 0n) return false;
+    return reencryptEbool(this.signer, this.requireFhevm(), handle, this.address);
+  }
+
+  /**
+   * Reencrypts the price and quantity of each bid of the signer, which is allowed on their handles, with a single
+   * EIP-712 signature. A bid the locked funds did not cover is kept with a zero price and quantity instead of
+   * reverting, `zeroed` tells the bidder
+   */
+  async getMyBids(): Promise<MyBid[]> {
+    const bidder = await this.signer.getAddress();
+    const bids = (await this.contract.getAllBids())
+      .map((bid, index) => ({ index, quantity: bid.encryptedQuantity, price: bid.encryptedPrice, bidder: bid.bidder }))
+      .filter((bid) => bid.bidder === bidder);
+    if (bids.length === 0) return [];
+
+    const fhevm = this.requireFhevm();
+    const { publicKey, privateKey } = fhevm.generateKeypair();
+    const eip712 = fhevm.createEIP712(publicKey, this.address);
+    const signature = await this.signer.signTypedData(
+      eip712.domain,
+      { Reencrypt: eip712.types.Reencrypt },
+      eip712.message,
+    );
+    const reencrypt = (handle: bigint) =>
+      fhevm.reencrypt(handle, privateKey, publicKey, signature.replace("0x", ""), this.address, bidder);
+
+    const myBids: MyBid[] = [];
+    for (const [tranche, bid] of bids.entries()) {
+      const quantity = await reencrypt(bid.quantity);
+      const price = await reencrypt(bid.price);
+      myBids.push({ index: bid.index, tranche, price, quantity, zeroed: quantity === 0n && price === 0n });
+    }
+    return myBids;
+  }
+
+  async getStatus(): Promise<AuctionStatus> {
+    const c = this.contract;
+    const [owner, asset, paymentToken, quantity, startTime, endTime, maxParticipant, tieBreaking, pricing] =
+      await Promise.all([
+        c.owner(),
+        c.asset(),
+        c.paymentToken(),
+        c.quantity(),
+        c.startTime(),
+        c.endTime(),
+        c.maxParticipant(),
+        c.tieBreaking(),
+        c.pricing(),
+      ]);
+    const [bids, phase, active, settled, allDecrypted, settlementPrice] = await Promise.all([
+      c.getAllBids(),
+      this.getPhase(),
+      c.isActive(),
+      c.settled(),
+      c.checkAllDecrypted(),
+      c.settlementPrice(),
+    ]);
+    return {
+      address: this.address,
+      owner,
+      asset,
+      paymentToken,
+      quantity,
+      startTime,
+      endTime,
+      maxParticipant,
+      tieBreaking: Number(tieBreaking) as TieBreaking,
+      pricing: Number(pricing) as Pricing,
+      bidCount: bids.length,
+      phase,
+      active,
+      settled,
+      allDecrypted,
+      settlementPrice,
+    };
+  }
+
+  async getPhase(): Promise<AuctionPhase> {
+    return Number(await this.contract.getPhase()) as AuctionPhase;
+  }
+
+  onBidPlaced(listener: (bidder: string, quantityHandle: bigint, priceHandle: bigint) => void): Promise<Unsubscribe> {
+    return this.subscribe(this.contract.filters.EncryptedBidPlaced, listener);
+  }
+
+  onSettled(listener: (settlementPriceHandle: bigint) => void): Promise<Unsubscribe> {
+    return this.subscribe(this.contract.filters.AuctionSettled, listener);
+  }
+
+  onDecryptionCompleted(
+    listener: (requestId: bigint, bidder: string, quantity: bigint, price: bigint) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(this.contract.filters.DecryptionCompleted, listener);
+  }
+
+  onExtended(listener: (endTime: bigint) => void): Promise<Unsubscribe> {
+    return this.subscribe(this.contract.filters.AuctionExtended, listener);
+  }
+
+  onPhaseChanged(listener: (previousPhase: AuctionPhase, newPhase: AuctionPhase) => void): Promise<Unsubscribe> {
+    return this.subscribe(this.contract.filters.PhaseChanged, (previousPhase, newPhase) =>
+      listener(Number(previousPhase), Number(newPhase)),
+    );
+  }
+
+  private async subscribe<E extends TypedContractEvent>(event: E, listener: TypedListener<E>): Promise<Unsubscribe> {
+    await this.contract.on(event, listener);
+    return async () => {
+      await this.contract.off(event, listener);
+    };
+  }
+
+  private encryptBid(bid: BidParams) {
+    return this.encryptBids([bid]);
+  }
+
+  // Handles are ordered quantity then price for each bid
+  private async encryptBids(bids: BidParams[]) {
+    const input = this.requireFhevm().createEncryptedInput(this.address, await this.signer.getAddress());
+    for (const { price, quantity } of bids) {
+      input.add256(toUnits(quantity, await this.getAssetDecimals()));
+      input.add256(toUnits(price, await this.getPaymentDecimals()));
+    }
+    return input.encrypt();
+  }
+
+  // Encrypts a payment token amount as an euint64 input of `contractAddress`
+  private async encryptAmount(contractAddress: string, amount: bigint) {
+    const input = this.requireFhevm().createEncryptedInput(contractAddress, await this.signer.getAddress());
+    input.add64(amount);
+    return input.encrypt();
+  }
+
+  // An uninitialized handle reads as 0
+  private async reencrypt(handle: bigint): Promise<bigint> {
+    if (handle === 0n) return 0n;
+    return reencryptEuint64(this.signer, this.requireFhevm(), handle, this.address);
+  }
+
+  private requireFhevm(): FhevmInstance {
+    if (!this.fhevm) throw new Error("An fhevm instance is required to encrypt bids");
+    return this.fhevm;
+  }
+
+  private async getPaymentToken(): Promise<string> {
+    if (this.paymentToken === undefined) this.paymentToken = await this.contract.paymentToken();
+    return this.paymentToken;
+  }
+
+  private async isConfidentialPayment(): Promise<boolean> {
+    if (this.confidentialPayment === undefined) this.confidentialPayment = await this.contract.confidentialPayment();
+    return this.confidentialPayment;
+  }
+
+  private async getPaymentDecimals(): Promise<bigint> {
+    if (this.paymentDecimals === undefined) {
+      this.paymentDecimals = await tokenDecimals(await this.getPaymentToken(), this.signer);
+    }
+    return this.paymentDecimals;
+  }
+
+  private async getAssetDecimals(): Promise<bigint> {
+    if (this.assetDecimals === undefined) {
+      this.assetDecimals = await tokenDecimals(await this.contract.asset(), this.signer);
+    }
+    return this.assetDecimals;
+  }
+}
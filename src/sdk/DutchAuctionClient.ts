@@ -0,0 +1,186 @@
+import { ContractTransactionReceipt, Signer, ZeroAddress } from "ethers";
+import { FhevmInstance } from "fhevmjs/node";
+
+import { reencryptEbool } from "../../test/reencrypt";
+import { ERC20__factory, PrivateDutchAuction, PrivateDutchAuction__factory } from "../../types";
+import { TypedContractEvent, TypedListener } from "../../types/common";
+import { Amount, AuctionPhase, BidParams, Claimable, Unsubscribe } from "./types";
+import { toUnits, tokenDecimals, waitForReceipt } from "./utils";
+
+/**
+ * Client of a PrivateDutchAuction: sealed limit orders are placed while the auction is open, then the clock price
+ * steps down until the encrypted demand covers the quantity. Its phases are those of AuctionPhase, the clock runs
+ * while the auction is Closed
+ */
+export class DutchAuctionClient {
+  readonly address: string;
+  readonly contract: PrivateDutchAuction;
+  private paymentToken?: string;
+  private paymentDecimals?: bigint;
+  private assetDecimals?: bigint;
+
+  constructor(address: string, readonly signer: Signer, readonly fhevm?: FhevmInstance) {
+    this.address = address;
+    this.contract = PrivateDutchAuction__factory.connect(address, signer);
+  }
+
+  /** Returns a client for the same auction acting on behalf of another signer */
+  connect(signer: Signer): DutchAuctionClient {
+    return new DutchAuctionClient(this.address, signer, this.fhevm);
+  }
+
+  /** Locks Ether or payment tokens in the auction, approving the ERC20 allowance first if needed */
+  async lockFunds(amount: Amount): Promise<ContractTransactionReceipt> {
+    const paymentToken = await this.getPaymentToken();
+    const value = toUnits(amount, await this.getPaymentDecimals());
+    if (paymentToken === ZeroAddress) {
+      return waitForReceipt(this.contract.lockFunds(value, { value }));
+    }
+    await waitForReceipt(ERC20__factory.connect(paymentToken, this.signer).approve(this.address, value));
+    return waitForReceipt(this.contract.lockFunds(value));
+  }
+
+  /**
+   * Encrypts the limit price and quantity with the injected fhevm instance and places the bid, one per bidder. The
+   * locked funds must cover the limit price times the quantity
+   */
+  async placeBid(bid: BidParams): Promise<ContractTransactionReceipt> {
+    const input = this.requireFhevm().createEncryptedInput(this.address, await this.signer.getAddress());
+    input.add256(toUnits(bid.quantity, await this.getAssetDecimals()));
+    input.add256(toUnits(bid.price, await this.getPaymentDecimals()));
+    const encrypted = await input.encrypt();
+    return waitForReceipt(
+      this.contract.placeEncryptedBid(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof),
+    );
+  }
+
+  /** Reencrypts whether the locked funds covered the bid of the signer, false when it has no bid */
+  async isBidAccepted(): Promise<boolean> {
+    const handle = await this.contract.bidAccepted(await this.signer.getAddress());
+    if (handle === 0n) return false;
+    return reencryptEbool(this.signer, this.requireFhevm(), handle, this.address);
+  }
+
+  /** Current price of the public clock, in base units of the payment token */
+  async getClockPrice(): Promise<bigint> {
+    return this.contract.clockPrice();
+  }
+
+  /**
+   * Next price of the schedule whose demand is checked, one step below the last uncovered price. It can be above the
+   * clock price when the checks fall behind the clock, steps are never skipped
+   */
+  async getNextCheckPrice(): Promise<bigint> {
+    return this.contract.nextCheckPrice();
+  }
+
+  /**
+   * Checks the encrypted demand at the next price of the schedule, `batchSize` bids per transaction, and returns once
+   * its decryption is requested (owner only). The clock stops there if the Gateway answers that it covers the quantity
+   */
+  async checkDemand(batchSize = 16): Promise<ContractTransactionReceipt[]> {
+    const receipts: ContractTransactionReceipt[] = [];
+    do {
+      receipts.push(await waitForReceipt(this.contract.checkDemand(batchSize)));
+    } while (!(await this.contract.checkPending()));
+    return receipts;
+  }
+
+  /**
+   * Checks the demand at the next price of the schedule while the clock runs, see checkDemand, or once it stopped
+   * requests the decryption of every allocation, in batches of `batchSize` bids of about 1.4M FHE gas each (owner only)
+   */
+  async settle(batchSize = 6, checkBatchSize = 16): Promise<ContractTransactionReceipt[]> {
+    if (!(await this.contract.cleared())) return this.checkDemand(checkBatchSize);
+    const receipts: ContractTransactionReceipt[] = [];
+    while (!(await this.contract.settled())) {
+      const batchStart = (await this.contract.getAllocations()).length;
+      receipts.push(await waitForReceipt(this.contract.settleAuction(batchStart, batchSize)));
+    }
+    return receipts;
+  }
+
+  /** Records the asset and payment of every winner once the allocations are decrypted (owner only) */
+  async distribute(batchSize = 50): Promise<ContractTransactionReceipt[]> {
+    const receipts: ContractTransactionReceipt[] = [];
+    while ((await this.getPhase()) === AuctionPhase.Decrypted) {
+      receipts.push(await waitForReceipt(this.contract.distributeFunds(batchSize)));
+    }
+    return receipts;
+  }
+
+  /** Withdraws the asset won and the unused locked funds of the signer once funds are distributed */
+  async claim(): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.claim());
+  }
+
+  /** Withdraws the payments collected and the unsold assets once funds are distributed (owner only) */
+  async claimProceeds(): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.claimProceeds());
+  }
+
+  /** Cancels the auction before its settlement, the asset goes back to the owner (owner only) */
+  async cancel(): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.cancelAuction());
+  }
+
+  /** Cancels an auction whose allocations were never decrypted, once the grace period is over */
+  async abandonSettlement(): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.abandonSettlement());
+  }
+
+  /** Asset and refund an address can claim, defaults to the signer. The locked funds are only refunded at the end */
+  async getClaimable(account?: string): Promise<Claimable> {
+    const address = account ?? (await this.signer.getAddress());
+    const [asset, locked, phase] = await Promise.all([
+      this.contract.claimableAsset(address),
+      this.contract.lockedFunds(address),
+      this.getPhase(),
+    ]);
+    const ended = phase === AuctionPhase.Distributed || phase === AuctionPhase.Cancelled;
+    return { asset, refund: ended ? locked : 0n };
+  }
+
+  async getPhase(): Promise<AuctionPhase> {
+    return Number(await this.contract.getPhase()) as AuctionPhase;
+  }
+
+  onDemandChecked(listener: (price: bigint, covered: boolean) => void): Promise<Unsubscribe> {
+    return this.subscribe(this.contract.filters.DemandChecked, listener);
+  }
+
+  onClockStopped(listener: (settlementPrice: bigint) => void): Promise<Unsubscribe> {
+    return this.subscribe(this.contract.filters.ClockStopped, listener);
+  }
+
+  private async subscribe<E extends TypedContractEvent>(event: E, listener: TypedListener<E>): Promise<Unsubscribe> {
+    await this.contract.on(event, listener);
+    return async () => {
+      await this.contract.off(event, listener);
+    };
+  }
+
+  private requireFhevm(): FhevmInstance {
+    if (!this.fhevm) throw new Error("An fhevm instance is required to encrypt bids");
+    return this.fhevm;
+  }
+
+  private async getPaymentToken(): Promise<string> {
+    if (this.paymentToken === undefined) this.paymentToken = await this.contract.paymentToken();
+    return this.paymentToken;
+  }
+
+  private async getPaymentDecimals(): Promise<bigint> {
+    if (this.paymentDecimals === undefined) {
+      this.paymentDecimals = await tokenDecimals(await this.getPaymentToken(), this.signer);
+    }
+    return this.paymentDecimals;
+  }
+
+  private async getAssetDecimals(): Promise<bigint> {
+    if (this.assetDecimals === undefined) {
+      this.assetDecimals = await tokenDecimals(await this.contract.asset(), this.signer);
+    }
+    return this.assetDecimals;
+  }
+}
@@ -0,0 +1,209 @@
+import { ContractTransactionReceipt, Signer, ZeroAddress, ZeroHash } from "ethers";
+import { FhevmInstance } from "fhevmjs/node";
+
+import {
+  AuctionFactory,
+  AuctionFactory__factory,
+  ERC20__factory,
+  IConfidentialERC20__factory,
+  PrivateSinglePriceAuction__factory,
+} from "../../types";
+import { AuctionClient } from "./AuctionClient";
+import { DutchAuctionClient } from "./DutchAuctionClient";
+import { connectAuction } from "./connectAuction";
+import {
+  Amount,
+  AuctionPage,
+  AuctionPhase,
+  AuctionSummary,
+  CreateAuctionParams,
+  CreateDutchAuctionParams,
+  Pricing,
+  TieBreaking,
+  Unsubscribe,
+} from "./types";
+import { toUnits, tokenDecimals, waitForReceipt } from "./utils";
+
+export class FactoryClient {
+  readonly address: string;
+  readonly contract: AuctionFactory;
+
+  constructor(address: string, readonly signer: Signer, readonly fhevm?: FhevmInstance) {
+    this.address = address;
+    this.contract = AuctionFactory__factory.connect(address, signer);
+  }
+
+  connect(signer: Signer): FactoryClient {
+    return new FactoryClient(this.address, signer, this.fhevm);
+  }
+
+  /** Returns a client for an auction deployed by this factory, sharing the signer and fhevm instance */
+  auction(address: string): AuctionClient {
+    return new AuctionClient(address, this.signer, this.fhevm);
+  }
+
+  /**
+   * Approves the asset and creates a new auction, the signer becomes the auction owner. A confidential asset is
+   * approved with an encrypted allowance
+   */
+  async createAuction(params: CreateAuctionParams): Promise<AuctionClient> {
+    const paymentToken = params.paymentToken ?? ZeroAddress;
+    const quantity = toUnits(params.quantity, await tokenDecimals(params.asset, this.signer));
+    const reserve = await this.encryptReservePrice(params.reservePrice, paymentToken);
+    if (params.confidentialAsset) {
+      await this.approveConfidentialAsset(params.asset, quantity);
+    } else {
+      await waitForReceipt(ERC20__factory.connect(params.asset, this.signer).approve(this.address, quantity));
+    }
+    const rcpt = await waitForReceipt(
+      this.contract.createAuction(
+        {
+          asset: params.asset,
+          paymentToken,
+          confidentialPayment: params.confidentialPayment ?? false,
+          confidentialAsset: params.confidentialAsset ?? false,
+          homomorphicClearing: params.homomorphicClearing ?? false,
+          quantity,
+          startTime: params.startTime ?? 0,
+          duration: params.duration,
+          maxParticipant: params.maxParticipant,
+          tieBreaking: params.tieBreaking ?? TieBreaking.FirstCome,
+          extensionWindow: params.extensionWindow ?? 0,
+          extensionDuration: params.extensionDuration ?? 0,
+          maxExtension: params.maxExtension ?? 0,
+          allowlistRoot: params.allowlistRoot ?? ZeroHash,
+          pricing: params.pricing ?? Pricing.Uniform,
+        },
+        reserve.handle,
+        reserve.inputProof,
+      ),
+    );
+    for (const log of rcpt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "AuctionCreated") return this.auction(parsed.args.auctionAddress);
+    }
+    throw new Error(`AuctionCreated event not found in transaction ${rcpt.hash}`);
+  }
+
+  /** Approves the asset and creates a new Dutch clock auction, the signer becomes the auction owner */
+  async createDutchAuction(params: CreateDutchAuctionParams): Promise<DutchAuctionClient> {
+    const paymentToken = params.paymentToken ?? ZeroAddress;
+    const quantity = toUnits(params.quantity, await tokenDecimals(params.asset, this.signer));
+    const paymentDecimals = await tokenDecimals(paymentToken, this.signer);
+    await waitForReceipt(ERC20__factory.connect(params.asset, this.signer).approve(this.address, quantity));
+    const rcpt = await waitForReceipt(
+      this.contract.createDutchAuction({
+        asset: params.asset,
+        paymentToken,
+        quantity,
+        startTime: params.startTime ?? 0,
+        duration: params.duration,
+        maxParticipant: params.maxParticipant,
+        startPrice: toUnits(params.startPrice, paymentDecimals),
+        priceStep: toUnits(params.priceStep, paymentDecimals),
+        stepDuration: params.stepDuration,
+        floorPrice: toUnits(params.floorPrice, paymentDecimals),
+      }),
+    );
+    for (const log of rcpt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "AuctionCreated") {
+        return new DutchAuctionClient(parsed.args.auctionAddress, this.signer, this.fhevm);
+      }
+    }
+    throw new Error(`AuctionCreated event not found in transaction ${rcpt.hash}`);
+  }
+
+  // The factory skips the reserve price when it receives an empty proof
+  private async encryptReservePrice(reservePrice: Amount | undefined, paymentToken: string) {
+    if (reservePrice === undefined) return { handle: ZeroHash, inputProof: "0x" };
+    if (!this.fhevm) throw new Error("An fhevm instance is required to encrypt the reserve price");
+    const input = this.fhevm.createEncryptedInput(this.address, await this.signer.getAddress());
+    input.add256(toUnits(reservePrice, await tokenDecimals(paymentToken, this.signer)));
+    const encrypted = await input.encrypt();
+    return { handle: encrypted.handles[0], inputProof: encrypted.inputProof };
+  }
+
+  private async approveConfidentialAsset(asset: string, quantity: bigint) {
+    if (!this.fhevm) throw new Error("An fhevm instance is required to approve a confidential asset");
+    const input = this.fhevm.createEncryptedInput(asset, await this.signer.getAddress());
+    const allowance = await input.add64(quantity).encrypt();
+    const token = IConfidentialERC20__factory.connect(asset, this.signer);
+    await waitForReceipt(
+      token["approve(address,bytes32,bytes)"](this.address, allowance.handles[0], allowance.inputProof),
+    );
+  }
+
+  /** Cancels an auction of the factory before its settlement (guardian only) */
+  async cancelAuction(auction: string): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.cancelAuction(auction));
+  }
+
+  /** Hands the guardian role over to another address (guardian only) */
+  async setGuardian(guardian: string): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.setGuardian(guardian));
+  }
+
+  /** Sets the decryption grace period, in seconds, of the auctions created from now on (guardian only) */
+  async setDecryptionGracePeriod(seconds: number | bigint): Promise<ContractTransactionReceipt> {
+    return waitForReceipt(this.contract.setDecryptionGracePeriod(seconds));
+  }
+
+  async getAllAuctions(): Promise<string[]> {
+    return this.contract.getAllAuctions();
+  }
+
+  /** Page of the auctions in creation order, `limit` at most from `offset` */
+  async getAuctions(offset = 0, limit = 50): Promise<AuctionPage> {
+    const [auctions, total] = await this.contract.getAuctions(offset, limit);
+    return { auctions, total };
+  }
+
+  async getAuctionsByOwner(owner: string, offset = 0, limit = 50): Promise<AuctionPage> {
+    const [auctions, total] = await this.contract.getAuctionsByOwner(owner, offset, limit);
+    return { auctions, total };
+  }
+
+  async getAuctionsByAsset(asset: string, offset = 0, limit = 50): Promise<AuctionPage> {
+    const [auctions, total] = await this.contract.getAuctionsByAsset(asset, offset, limit);
+    return { auctions, total };
+  }
+
+  /** Page of the auctions paid in a token, ZeroAddress for Ether */
+  async getAuctionsByPaymentToken(paymentToken: string, offset = 0, limit = 50): Promise<AuctionPage> {
+    const [auctions, total] = await this.contract.getAuctionsByPaymentToken(paymentToken, offset, limit);
+    return { auctions, total };
+  }
+
+  /** Auctions in a phase among the `limit` auctions created from `offset`, fewer than `limit` may match */
+  async getAuctionsByPhase(phase: AuctionPhase, offset = 0, limit = 50): Promise<string[]> {
+    return this.contract.getAuctionsByPhase(phase, offset, limit);
+  }
+
+  /** Phase, end time and participant count of an auction, whatever its type */
+  async getAuctionSummary(address: string): Promise<AuctionSummary> {
+    // Both auction types share these getters
+    const auction = PrivateSinglePriceAuction__factory.connect(address, this.signer);
+    const [client, phase, endTime, participantCount] = await Promise.all([
+      connectAuction(address, this.signer),
+      auction.getPhase(),
+      auction.endTime(),
+      auction.participantCount(),
+    ]);
+    return {
+      address,
+      dutch: client instanceof DutchAuctionClient,
+      phase: Number(phase) as AuctionPhase,
+      endTime,
+      participantCount,
+    };
+  }
+
+  async onAuctionCreated(listener: (auctionAddress: string, owner: string) => void): Promise<Unsubscribe> {
+    const event = this.contract.filters.AuctionCreated;
+    await this.contract.on(event, listener);
+    return async () => {
+      await this.contract.off(event, listener);
+    };
+  }
+}
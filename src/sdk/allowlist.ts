@@ -0,0 +1,40 @@
+import { AbiCoder, getAddress, keccak256 } from "ethers";
+
+import { Allowlist } from "./types";
+
+// Leaf of an address, hashed twice as checked by PrivateSinglePriceAuction so that it cannot be taken for an inner node
+export function allowlistLeaf(account: string): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [account])));
+}
+
+// Pairs are hashed sorted, as verified by OpenZeppelin's MerkleProof
+function hashPair(a: string, b: string): string {
+  return keccak256(BigInt(a) < BigInt(b) ? a + b.slice(2) : b + a.slice(2));
+}
+
+/**
+ * Builds the Merkle tree of the addresses allowed to bid and the proof of each of them, keyed by checksummed address.
+ * Duplicates are ignored, a node without sibling is carried to the next level
+ */
+export function buildAllowlist(accounts: string[]): Allowlist {
+  const addresses = [...new Set(accounts.map((account) => getAddress(account)))];
+  if (addresses.length === 0) throw new Error("The allowlist needs at least one address");
+
+  let level = addresses.map((address) => ({ hash: allowlistLeaf(address), members: [address] }));
+  const proofs: Record<string, string[]> = Object.fromEntries(addresses.map((address) => [address, []]));
+  while (level.length > 1) {
+    const next = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const [left, right] = [level[i], level[i + 1]];
+      if (!right) {
+        next.push(left);
+        continue;
+      }
+      for (const member of left.members) proofs[member].push(right.hash);
+      for (const member of right.members) proofs[member].push(left.hash);
+      next.push({ hash: hashPair(left.hash, right.hash), members: [...left.members, ...right.members] });
+    }
+    level = next;
+  }
+  return { root: level[0].hash, proofs };
+}
@@ -0,0 +1,26 @@
+import { Signer } from "ethers";
+import { FhevmInstance } from "fhevmjs/node";
+
+import { PrivateDutchAuction__factory, PrivateSinglePriceAuction__factory } from "../../types";
+import { AuctionClient } from "./AuctionClient";
+import { DutchAuctionClient } from "./DutchAuctionClient";
+
+// Returns the client matching the type of an auction of the factory, only Dutch clock auctions have a clock price and
+// only single-price auctions a tie-breaking policy. Fails with the first error when the address is neither
+export async function connectAuction(
+  address: string,
+  signer: Signer,
+  fhevm?: FhevmInstance,
+): Promise<AuctionClient | DutchAuctionClient> {
+  try {
+    await PrivateDutchAuction__factory.connect(address, signer).clockPrice();
+    return new DutchAuctionClient(address, signer, fhevm);
+  } catch (e) {
+    await PrivateSinglePriceAuction__factory.connect(address, signer)
+      .tieBreaking()
+      .catch(() => {
+        throw e;
+      });
+    return new AuctionClient(address, signer, fhevm);
+  }
+}
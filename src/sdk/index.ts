@@ -0,0 +1,6 @@
+export { allowlistLeaf, buildAllowlist } from "./allowlist";
+export { AuctionClient } from "./AuctionClient";
+export { connectAuction } from "./connectAuction";
+export { DutchAuctionClient } from "./DutchAuctionClient";
+export { FactoryClient } from "./FactoryClient";
+export * from "./types";
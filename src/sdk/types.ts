@@ -0,0 +1,124 @@
+import type { BigNumberish } from "ethers";
+
+// Amounts can be passed either in base units (bigint) or as human readable strings ("1.5"),
+// which are parsed with the decimals of the relevant token.
+export type Amount = bigint | string;
+
+// Mirrors PrivateSinglePriceAuction.AuctionPhase
+export enum AuctionPhase {
+  Pending,
+  Open,
+  Closed,
+  Decrypting,
+  Decrypted,
+  Distributed,
+  Cancelled,
+}
+
+// Mirrors PrivateSinglePriceAuction.TieBreaking
+export enum TieBreaking {
+  FirstCome,
+  ProRata,
+  Random,
+}
+
+// Mirrors PrivateSinglePriceAuction.Pricing
+export enum Pricing {
+  Uniform,
+  PayAsBid,
+  SecondPrice,
+}
+
+export interface BidParams {
+  price: Amount;
+  quantity: Amount;
+}
+
+export interface CreateAuctionParams {
+  asset: string;
+  paymentToken?: string; // Omit or use ZeroAddress for Ether
+  confidentialPayment?: boolean; // Whether paymentToken is a ConfidentialERC20, defaults to false
+  confidentialAsset?: boolean; // Whether asset is a ConfidentialERC20, needs confidentialPayment, homomorphicClearing
+  homomorphicClearing?: boolean; // Whether the clearing price is computed without decrypting the bids, FirstCome only
+  quantity: Amount;
+  startTime?: BigNumberish; // Unix timestamp of the opening, omit to open at once
+  duration: BigNumberish; // Seconds of bidding after the opening
+  extensionWindow?: BigNumberish; // A bid placed this many seconds before the end extends it, omit to never extend
+  extensionDuration?: BigNumberish; // Seconds added to the end by each extension
+  maxExtension?: BigNumberish; // Total seconds the extensions can add to the end
+  maxParticipant: BigNumberish;
+  reservePrice?: Amount; // Encrypted with the fhevm instance, omit for no minimum price
+  tieBreaking?: TieBreaking; // Defaults to TieBreaking.FirstCome
+  pricing?: Pricing; // Defaults to Pricing.Uniform, pay-as-bid needs decrypted bids, second price homomorphic clearing
+  allowlistRoot?: string; // Merkle root of the addresses allowed to bid, see buildAllowlist, omit to let anyone bid
+}
+
+export interface CreateDutchAuctionParams {
+  asset: string;
+  paymentToken?: string; // Omit or use ZeroAddress for Ether
+  quantity: Amount;
+  startTime?: BigNumberish; // Unix timestamp of the opening, omit to open at once
+  duration: BigNumberish; // Seconds of bidding after the opening, the clock starts at the end
+  maxParticipant: BigNumberish;
+  startPrice: Amount; // First price of the clock, above the floor price
+  priceStep: Amount; // Amount the clock price drops by at each step
+  stepDuration: BigNumberish; // Seconds between two steps of the clock
+  floorPrice: Amount; // The clock never drops below it, positive
+}
+
+export interface AuctionStatus {
+  address: string;
+  owner: string;
+  asset: string;
+  paymentToken: string;
+  quantity: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  maxParticipant: bigint;
+  tieBreaking: TieBreaking;
+  pricing: Pricing;
+  bidCount: number;
+  phase: AuctionPhase;
+  active: boolean;
+  settled: boolean;
+  allDecrypted: boolean;
+  settlementPrice: bigint;
+}
+
+// A page of the factory registry
+export interface AuctionPage {
+  auctions: string[];
+  total: bigint; // Number of auctions matching the query, across every page
+}
+
+// What a listing of auctions shows, read from any auction type of the factory
+export interface AuctionSummary {
+  address: string;
+  dutch: boolean; // Whether it is a PrivateDutchAuction
+  phase: AuctionPhase;
+  endTime: bigint; // End of the bidding, the clock of a Dutch auction starts there
+  participantCount: bigint;
+}
+
+// A bid of the signer reencrypted, amounts in base units
+export interface MyBid {
+  index: number; // Position in getAllBids
+  tranche: number; // Position among the bids of the bidder, as expected by updateBid
+  price: bigint;
+  quantity: bigint;
+  zeroed: boolean; // The locked funds did not cover the bid when it was placed, its price and quantity were set to 0
+}
+
+// Merkle tree of the addresses allowed to bid, as written by the allowlistProofs task
+export interface Allowlist {
+  root: string;
+  proofs: Record<string, string[]>; // Proof of each checksummed address, passed when locking funds and bidding
+}
+
+export interface Claimable {
+  asset: bigint;
+  refund: bigint;
+}
+
+// Returned by every event subscription, call it to stop listening
+export type Unsubscribe = () => Promise<void>;
@@ -0,0 +1,24 @@
+import { ContractTransactionReceipt, ContractTransactionResponse, ZeroAddress, parseUnits } from "ethers";
+import type { ContractRunner } from "ethers";
+
+import { ERC20__factory } from "../../types";
+import { Amount } from "./types";
+
+const ETHER_DECIMALS = 18n;
+
+// Waits for a transaction to be mined and fails loudly if it has been dropped
+export async function waitForReceipt(tx: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+  const rcpt = await (await tx).wait();
+  if (!rcpt) throw new Error("Transaction was dropped before being mined");
+  return rcpt;
+}
+
+// Returns the decimals of an ERC20 token, or 18 for Ether (address(0))
+export async function tokenDecimals(token: string, runner: ContractRunner): Promise<bigint> {
+  if (token === ZeroAddress) return ETHER_DECIMALS;
+  return ERC20__factory.connect(token, runner).decimals();
+}
+
+export function toUnits(amount: Amount, decimals: bigint): bigint {
+  return typeof amount === "bigint" ? amount : parseUnits(amount, decimals);
+}
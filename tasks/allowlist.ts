@@ -0,0 +1,40 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Builds the allowlist of an auction from a CSV whose first column holds the addresses, a header line is skipped,
+// and writes the Merkle root and the proof of each address to JSON for the frontend
+task("allowlistProofs")
+  .addParam("csv", "CSV file of the addresses allowed to bid, one per line in the first column")
+  .addParam("out", "JSON file written with the Merkle root and the proof of each address")
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const { ethers } = hre;
+    const { buildAllowlist } = await import("../src/sdk");
+    const lines = fs
+      .readFileSync(taskArguments.csv, "utf8")
+      .split(/\r?\n/)
+      .map((line) => line.split(",")[0].trim().replace(/^"|"$/g, ""))
+      .filter((line) => line !== "");
+    if (lines.length > 0 && !ethers.isAddress(lines[0])) lines.shift();
+    for (const [i, line] of lines.entries()) {
+      if (!ethers.isAddress(line)) throw Error(`Invalid address "${line}" on data line ${i + 1}`);
+    }
+
+    const allowlist = buildAllowlist(lines);
+    fs.writeFileSync(taskArguments.out, JSON.stringify(allowlist, null, 2));
+    console.info(`Merkle root of ${Object.keys(allowlist.proofs).length} addresses: `, allowlist.root);
+    console.info("Proofs written to", taskArguments.out);
+  });
+
+task("setAllowlistRoot")
+  .addParam("auctionContract", "Auction Contract Address")
+  .addParam("root", "New Merkle root, see allowlistProofs, or 0x00…00 to let anyone bid")
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const signers = await hre.ethers.getSigners();
+    const { AuctionClient } = await import("../src/sdk");
+    const auction = new AuctionClient(taskArguments.auctionContract, signers[1]);
+
+    const rcpt = await auction.setAllowlistRoot(taskArguments.root);
+    console.info("Set Allowlist Root tx hash: ", rcpt.hash);
+  });
@@ -0,0 +1,19 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { AuctionPhase } from "../src/sdk";
+
+// Returns the human readable phase of an auction, e.g. "Decrypting"
+export async function getPhase(hre: HardhatRuntimeEnvironment, auctionAddress: string): Promise<string> {
+  const [signer] = await hre.ethers.getSigners();
+  const { AuctionClient, AuctionPhase } = await import("../src/sdk");
+  const phase: AuctionPhase = await new AuctionClient(auctionAddress, signer).getPhase();
+  return AuctionPhase[phase];
+}
+
+task("auctionPhase", "Prints the current phase of an auction")
+  .addParam("auctionContract", "Auction Contract Address")
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    console.info("Auction phase: ", await getPhase(hre, taskArguments.auctionContract));
+  });
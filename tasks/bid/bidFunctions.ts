@@ -1,36 +1,67 @@
-import { FhevmInstance } from "fhevmjs/node";
+import fs from "fs";
 
-import { MockERC20, PrivateSinglePriceAuction } from "../../types";
+import type { Allowlist, AuctionClient, BidParams, DutchAuctionClient } from "../../src/sdk";
+
+// Reads the proof of a bidder from the JSON written by the allowlistProofs task, no proof without a file
+export async function allowlistProof(auction: AuctionClient, proofsFile?: string): Promise<string[]> {
+  if (!proofsFile) return [];
+  const { proofs } = JSON.parse(fs.readFileSync(proofsFile, "utf8")) as Allowlist;
+  const bidder = await auction.signer.getAddress();
+  if (!proofs[bidder]) throw Error(`${bidder} is not in the allowlist of ${proofsFile}`);
+  return proofs[bidder];
+}
 
 export async function bidAuction(
-  bidderNumber: number,
-  signerNumber: number,
+  auction: AuctionClient | DutchAuctionClient,
   priceS: string,
   quantityS: string,
   lockS: string,
-  ethers: any,
-  paymentToken: MockERC20,
-  privateAuction: PrivateSinglePriceAuction,
-  signers: any,
-  fhevm: FhevmInstance,
 ) {
-  await paymentToken
-    .connect(signers[signerNumber])
-    .approve(await privateAuction.getAddress(), ethers.parseEther(lockS));
-  await privateAuction.connect(signers[signerNumber]).lockFunds(ethers.parseEther(lockS));
-  const price = ethers.parseEther(priceS);
-  const quantity = ethers.parseEther(quantityS);
-  const input = fhevm.createEncryptedInput(await privateAuction.getAddress(), signers[signerNumber].address);
-  input.add256(quantity);
-  input.add256(price);
-  const encryptedAmount = await input.encrypt();
-  const tx = await privateAuction
-    .connect(signers[signerNumber])
-    ["placeEncryptedBid(bytes32,bytes32,bytes)"](
-      encryptedAmount.handles[0],
-      encryptedAmount.handles[1],
-      encryptedAmount.inputProof,
+  await auction.lockFunds(lockS);
+  const rcpt = await auction.placeBid({ price: priceS, quantity: quantityS });
+  console.info("Place Encrypted Bid tx hash: ", rcpt.hash);
+  await logBidAccepted(auction);
+}
+
+export async function bidLadder(auction: AuctionClient, bids: BidParams[], lockS: string, proof: string[] = []) {
+  await auction.lockFunds(lockS, proof);
+  const rcpt = await auction.placeBidLadder(bids, proof);
+  console.info("Place Encrypted Bid Ladder tx hash: ", rcpt.hash);
+  await myBids(auction);
+}
+
+export async function updateBid(auction: AuctionClient, priceS: string, quantityS: string, tranche = 0) {
+  const rcpt = await auction.updateBid({ price: priceS, quantity: quantityS }, tranche);
+  console.info("Update Encrypted Bid tx hash: ", rcpt.hash);
+  await logBidAccepted(auction);
+}
+
+// Reencrypts the acceptance of the last tranche, so that the bidder can top up its locked funds before the deadline.
+// The single limit order of a Dutch auction cannot be updated
+async function logBidAccepted(auction: AuctionClient | DutchAuctionClient) {
+  if (await auction.isBidAccepted()) {
+    console.info("Bid accepted");
+  } else if ("updateBid" in auction) {
+    console.info("Bid zeroed, the locked funds do not cover it: lock more funds and update the bid");
+  } else {
+    console.info("Bid zeroed, the locked funds do not cover its limit price");
+  }
+}
+
+export async function myBids(auction: AuctionClient) {
+  const bids = await auction.getMyBids();
+  if (bids.length === 0) console.info("No bid placed");
+  for (const bid of bids) {
+    const amounts = `quantity ${bid.quantity}, price ${bid.price}`;
+    console.info(
+      `Tranche ${bid.tranche} (bid ${bid.index}): ${
+        bid.zeroed ? "zeroed, the locked funds did not cover it" : amounts
+      }`,
     );
-  const rcpt = await tx.wait();
-  console.info("Place Encrypted Bid tx hash: ", rcpt!.hash);
+  }
+}
+
+export async function cancelBid(auction: AuctionClient) {
+  const rcpt = await auction.cancelBid();
+  console.info("Cancel Bid tx hash: ", rcpt.hash);
 }
@@ -0,0 +1,20 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { getPhase } from "./auctionPhase";
+
+task("cancelAuction", "Cancels an auction before its settlement and returns the asset to its owner")
+  .addParam("auctionContract", "Auction Contract Address")
+  .addOptionalParam("factory", "Cancel as the factory guardian (account 0) through this factory address")
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const { ethers } = hre;
+    const signers = await ethers.getSigners();
+    const { AuctionClient, FactoryClient } = await import("../src/sdk");
+
+    const rcpt = taskArguments.factory
+      ? await new FactoryClient(taskArguments.factory, signers[0]).cancelAuction(taskArguments.auctionContract)
+      : await new AuctionClient(taskArguments.auctionContract, signers[1]).cancel();
+    console.info("Cancel Auction tx hash: ", rcpt.hash);
+    console.info("Auction phase: ", await getPhase(hre, taskArguments.auctionContract));
+  });
@@ -0,0 +1,37 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { createInstance } from "./bid/instance";
+
+task("claim", "Withdraws the asset won and the refund of a bidder, or the proceeds of the owner")
+  .addParam("auctionContract", "Auction Contract Address")
+  .addOptionalParam("bidder", "Index of the bidder account", 2, types.int)
+  .addFlag("proceeds", "Claim the proceeds and unsold assets as the auction owner (account 1)")
+  .addFlag("confidential", "Reencrypt the confidential allocation and refund of the bidder before claiming, not Dutch")
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const { ethers } = hre;
+    const signers = await ethers.getSigners();
+    const { AuctionClient, connectAuction } = await import("../src/sdk");
+
+    if (taskArguments.proceeds) {
+      const auction = await connectAuction(taskArguments.auctionContract, signers[1]);
+      const rcpt = await auction.claimProceeds();
+      console.info("Claim Proceeds tx hash: ", rcpt.hash);
+      return;
+    }
+
+    const fhevm = taskArguments.confidential ? await createInstance(hre.network) : undefined;
+    const auction = await connectAuction(taskArguments.auctionContract, signers[taskArguments.bidder], fhevm);
+    if (fhevm) {
+      if (!(auction instanceof AuctionClient)) throw Error("Dutch auctions have no confidential allocation");
+      console.info(`Encrypted allocation: ${await auction.getEncryptedAllocation()}`);
+      console.info(`Encrypted refund: ${await auction.getEncryptedRefund()}`);
+    } else {
+      const claimable = await auction.getClaimable();
+      console.info(`Claimable asset: ${ethers.formatEther(claimable.asset)}`);
+      console.info(`Claimable refund: ${ethers.formatEther(claimable.refund)}`);
+    }
+    const rcpt = await auction.claim();
+    console.info("Claim tx hash: ", rcpt.hash);
+  });
@@ -2,7 +2,8 @@ import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
-import { AuctionFactory, MockERC20 } from "../types";
+import { MockConfidentialERC20, MockERC20 } from "../types";
+import { createInstance } from "./bid/instance";
 
 // Auction Factory Contract 0xe13a2C0cD324aaf9Db5E9FdFDba532Ea7Fa5681c
 // Asset Token Contract 0x21D7A817AC349Bacb8d11A7a8816F0234c04be4a
@@ -11,37 +12,114 @@ task("createAuction")
   .addParam("auctionFactoryContract", "Auction Factory Contract Address")
   .addParam("assetContract", "Asset Contract Address")
   .addParam("quantity", "Quantity")
+  .addOptionalParam("start", "Opening date as an ISO 8601 timestamp, the auction opens at once if omitted")
   .addParam("duration", "Duration")
   .addParam("maxParticipant", "Max Participant")
+  .addOptionalParam("extensionWindow", "Seconds before the end in which a bid extends the auction, never if omitted")
+  .addOptionalParam("extensionDuration", "Seconds added to the end by each extension")
+  .addOptionalParam("maxExtension", "Total seconds the extensions can add to the end")
   .addOptionalParam("paymentToken", "Payment Token Contract Address")
+  .addFlag("confidentialPayment", "The payment token is a ConfidentialERC20, bidders lock encrypted amounts")
+  .addFlag(
+    "confidentialAsset",
+    "The asset is a ConfidentialERC20, winners receive encrypted allocations, needs homomorphicClearing",
+  )
+  .addFlag("homomorphicClearing", "Compute the clearing price without decrypting the bids, first-come ties only")
+  .addOptionalParam("reservePrice", "Minimum clearing price per token, encrypted before being sent")
+  .addOptionalParam("allowlistRoot", "Merkle root of the addresses allowed to bid, see allowlistProofs")
+  .addOptionalParam(
+    "tieBreaking",
+    "Policy for bids tied at the clearing price: first-come, pro-rata or random",
+    "first-come",
+  )
+  .addOptionalParam(
+    "pricing",
+    "Price paid by the winners: uniform (clearing price), pay-as-bid or second-price (single lot, homomorphic clearing)",
+    "uniform",
+  )
+  .addFlag("dutch", "Create a Dutch clock auction of sealed limit orders, needs the four clock parameters below")
+  .addOptionalParam("startPrice", "Dutch auction: first price per token of the clock")
+  .addOptionalParam("priceStep", "Dutch auction: amount the clock price drops by at each step")
+  .addOptionalParam("stepDuration", "Dutch auction: seconds between two steps of the clock")
+  .addOptionalParam("floorPrice", "Dutch auction: lowest price per token of the clock, positive")
   .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
     const { ethers } = hre;
     const signers = await ethers.getSigners();
-    const auctionFactory = (await ethers.getContractAt(
-      "AuctionFactory",
-      taskArguments.auctionFactoryContract,
-    )) as AuctionFactory;
-    const asset = (await ethers.getContractAt("MockERC20", taskArguments.assetContract)) as MockERC20;
-    let paymentToken = ethers.ZeroAddress;
-    if (taskArguments.paymentToken) {
-      const paymentTokenContract = (await ethers.getContractAt("MockERC20", taskArguments.paymentToken)) as MockERC20;
-      paymentToken = await paymentTokenContract.getAddress();
+    // The SDK relies on the generated typechain factories, so it is loaded lazily
+    const { FactoryClient, Pricing, TieBreaking } = await import("../src/sdk");
+    const policies: Record<string, number> = {
+      "first-come": TieBreaking.FirstCome,
+      "pro-rata": TieBreaking.ProRata,
+      random: TieBreaking.Random,
+    };
+    const tieBreaking = policies[taskArguments.tieBreaking];
+    if (tieBreaking === undefined) throw Error(`Unknown tie-breaking policy "${taskArguments.tieBreaking}"`);
+    const modes: Record<string, number> = {
+      uniform: Pricing.Uniform,
+      "pay-as-bid": Pricing.PayAsBid,
+      "second-price": Pricing.SecondPrice,
+    };
+    const pricing = modes[taskArguments.pricing];
+    if (pricing === undefined) throw Error(`Unknown pricing mode "${taskArguments.pricing}"`);
+    let startTime = 0;
+    if (taskArguments.start) {
+      startTime = Math.floor(Date.parse(taskArguments.start) / 1000);
+      if (Number.isNaN(startTime)) throw Error(`Invalid start date "${taskArguments.start}"`);
     }
+    const needsFhevm = taskArguments.reservePrice || taskArguments.confidentialAsset;
+    const fhevm = needsFhevm ? await createInstance(hre.network) : undefined;
+    const factory = new FactoryClient(taskArguments.auctionFactoryContract, signers[1], fhevm);
 
-    await asset.connect(signers[0]).transfer(signers[1], ethers.parseEther(taskArguments.quantity));
-    await asset
-      .connect(signers[1])
-      .approve(await auctionFactory.getAddress(), ethers.parseEther(taskArguments.quantity));
-    const tx = await auctionFactory
-      .connect(signers[1])
-      .createAuction(
-        await asset.getAddress(),
-        paymentToken,
-        ethers.parseEther(taskArguments.quantity),
-        taskArguments.duration,
-        taskArguments.maxParticipant,
-      );
-    const rcpt = await tx.wait();
-    console.info("Create Auction tx hash: ", rcpt!.hash);
+    if (taskArguments.confidentialAsset) {
+      const asset = (await ethers.getContractAt(
+        "MockConfidentialERC20",
+        taskArguments.assetContract,
+      )) as MockConfidentialERC20;
+      await asset
+        .connect(signers[0])
+        .mint(signers[1], ethers.parseUnits(taskArguments.quantity, await asset.decimals()));
+    } else {
+      const asset = (await ethers.getContractAt("MockERC20", taskArguments.assetContract)) as MockERC20;
+      await asset.connect(signers[0]).transfer(signers[1], ethers.parseEther(taskArguments.quantity));
+    }
+    if (taskArguments.dutch) {
+      for (const name of ["startPrice", "priceStep", "stepDuration", "floorPrice"]) {
+        if (taskArguments[name] === undefined) throw Error(`--${name} is required by a Dutch auction`);
+      }
+      const auction = await factory.createDutchAuction({
+        asset: taskArguments.assetContract,
+        paymentToken: taskArguments.paymentToken,
+        quantity: taskArguments.quantity,
+        startTime,
+        duration: taskArguments.duration,
+        maxParticipant: taskArguments.maxParticipant,
+        startPrice: taskArguments.startPrice,
+        priceStep: taskArguments.priceStep,
+        stepDuration: taskArguments.stepDuration,
+        floorPrice: taskArguments.floorPrice,
+      });
+      console.info("Dutch auction address: ", auction.address);
+      console.info("Create Auction done!");
+      return;
+    }
+    const auction = await factory.createAuction({
+      asset: taskArguments.assetContract,
+      paymentToken: taskArguments.paymentToken,
+      confidentialPayment: taskArguments.confidentialPayment,
+      confidentialAsset: taskArguments.confidentialAsset,
+      homomorphicClearing: taskArguments.homomorphicClearing,
+      quantity: taskArguments.quantity,
+      startTime,
+      duration: taskArguments.duration,
+      maxParticipant: taskArguments.maxParticipant,
+      extensionWindow: taskArguments.extensionWindow,
+      extensionDuration: taskArguments.extensionDuration,
+      maxExtension: taskArguments.maxExtension,
+      reservePrice: taskArguments.reservePrice,
+      tieBreaking,
+      pricing,
+      allowlistRoot: taskArguments.allowlistRoot,
+    });
+    console.info("Auction address: ", auction.address);
     console.info("Create Auction done!");
   });
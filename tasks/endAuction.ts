@@ -2,20 +2,53 @@ import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
-import { PrivateSinglePriceAuction } from "../types";
+import { getPhase } from "./auctionPhase";
 
-task("endAuction")
+task("endAuction", "Settles an auction, or checks the demand at the clock price of a Dutch auction until it stops")
   .addParam("auctionContract", "Auction Contract Address")
+  .addOptionalParam("batchSize", "Number of bids decrypted per transaction, of allocations for a Dutch auction", "20")
+  .addOptionalParam(
+    "compareBatchSize",
+    "Number of pairs of bids compared, or of bids ranked in second-price mode, per transaction, homomorphic clearing",
+    "8",
+  )
   .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
     const { ethers } = hre;
     const signers = await ethers.getSigners();
-    const privateAuction = (await ethers.getContractAt(
-      "PrivateSinglePriceAuction",
-      taskArguments.auctionContract,
-    )) as PrivateSinglePriceAuction;
+    const { DutchAuctionClient, connectAuction } = await import("../src/sdk");
+    const auction = await connectAuction(taskArguments.auctionContract, signers[1]);
 
-    const tx = await privateAuction.connect(signers[1]).settleAuction();
-    const rcpt = await tx.wait();
-    console.info("End Auction tx hash: ", rcpt!.hash);
+    if (auction instanceof DutchAuctionClient) {
+      // Each call either checks the demand at the next price of the schedule or, once the clock stopped, decrypts the
+      // allocations
+      const receipts = await auction.settle(Number(taskArguments.batchSize));
+      for (const rcpt of receipts) console.info("End Auction tx hash: ", rcpt.hash);
+      console.info("Clock price: ", ethers.formatEther(await auction.getClockPrice()));
+      console.info("Checked price: ", ethers.formatEther(await auction.contract.checkPrice()));
+      console.info("Clock stopped: ", await auction.contract.cleared());
+    } else {
+      const receipts = await auction.settle(Number(taskArguments.batchSize), Number(taskArguments.compareBatchSize));
+      for (const rcpt of receipts) console.info("End Auction tx hash: ", rcpt.hash);
+    }
+    console.info("Auction phase: ", await getPhase(hre, taskArguments.auctionContract));
     console.info("End Auction done!");
   });
+
+task("retryDecryption", "Requests again the expired decryptions of an auction, or abandons its settlement")
+  .addParam("auctionContract", "Auction Contract Address")
+  .addFlag("abandon", "Cancel the auction once the decryption grace period is over")
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const { ethers } = hre;
+    const signers = await ethers.getSigners();
+    const { AuctionClient } = await import("../src/sdk");
+    const auction = new AuctionClient(taskArguments.auctionContract, signers[1]);
+
+    if (taskArguments.abandon) {
+      const rcpt = await auction.abandonSettlement();
+      console.info("Abandon Settlement tx hash: ", rcpt.hash);
+    } else {
+      const rcpt = await auction.retryExpiredDecryptions();
+      console.info(rcpt ? `Retry Decryption tx hash: ${rcpt.hash}` : "No expired decryption request");
+    }
+    console.info("Auction phase: ", await getPhase(hre, taskArguments.auctionContract));
+  });
@@ -0,0 +1,56 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+task("list-auctions", "Prints a page of the auctions of a factory with their phase, end time and participant count")
+  .addParam("auctionFactoryContract", "Auction Factory Contract Address")
+  .addOptionalParam("owner", "Only the auctions created by this address")
+  .addOptionalParam("asset", "Only the auctions selling this token")
+  .addOptionalParam("paymentToken", "Only the auctions paid in this token, the zero address for Ether")
+  .addOptionalParam("phase", "Only the auctions in this phase, e.g. Open or Distributed")
+  .addOptionalParam("offset", "Position of the first auction of the page in the registry", 0, types.int)
+  .addOptionalParam("limit", "Number of auctions of the page", 20, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const { AuctionPhase, FactoryClient } = await import("../src/sdk");
+    const factory = new FactoryClient(taskArguments.auctionFactoryContract, signer);
+    const { owner, asset, paymentToken, offset, limit } = taskArguments;
+    if ([owner, asset, paymentToken].filter((filter) => filter !== undefined).length > 1) {
+      throw Error("Filter by one of --owner, --asset and --payment-token at most");
+    }
+    let phase: number | undefined;
+    if (taskArguments.phase !== undefined) {
+      phase = AuctionPhase[taskArguments.phase as keyof typeof AuctionPhase];
+      if (phase === undefined) throw Error(`Unknown phase "${taskArguments.phase}"`);
+    }
+
+    let page;
+    if (owner !== undefined) page = await factory.getAuctionsByOwner(owner, offset, limit);
+    else if (asset !== undefined) page = await factory.getAuctionsByAsset(asset, offset, limit);
+    else if (paymentToken !== undefined) page = await factory.getAuctionsByPaymentToken(paymentToken, offset, limit);
+    else {
+      page = await factory.getAuctions(offset, limit);
+      // The factory reads the phase of each auction of the page, fewer auctions than the limit may match
+      if (phase !== undefined) page.auctions = await factory.getAuctionsByPhase(phase, offset, limit);
+    }
+
+    const summaries = await Promise.all(page.auctions.map((address) => factory.getAuctionSummary(address)));
+    // The pages of the owner, asset and payment token indexes are filtered by phase here
+    const rows = summaries
+      .filter((summary) => phase === undefined || summary.phase === phase)
+      .map((summary) => ({
+        address: summary.address,
+        type: summary.dutch ? "Dutch" : "Single-price",
+        phase: AuctionPhase[summary.phase],
+        endTime: new Date(Number(summary.endTime) * 1000).toISOString(),
+        participants: Number(summary.participantCount),
+      }));
+    // The total counts every auction of the registry or index whatever its phase, only the page is filtered
+    console.info(
+      phase === undefined
+        ? `${rows.length} auctions listed from position ${offset}, ${page.total} in total`
+        : `${rows.length} ${AuctionPhase[phase]} auctions listed from position ${offset}`,
+    );
+    console.table(rows);
+  });
@@ -0,0 +1,65 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { allowlistProof, bidLadder, cancelBid, myBids, updateBid } from "./bid/bidFunctions";
+import { createInstance } from "./bid/instance";
+
+task("bidLadder")
+  .addParam("auctionContract", "Auction Contract Address")
+  .addParam("tranches", 'Comma separated "price:quantity" tranches, e.g. "3:10,2:20,1:40"')
+  .addParam("lock", "Amount of funds to lock for all the tranches")
+  .addOptionalParam("bidder", "Index of the bidder account", 2, types.int)
+  .addOptionalParam("allowlistProofs", "JSON file written by allowlistProofs, for an auction with an allowlist")
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const signers = await hre.ethers.getSigners();
+    const { AuctionClient } = await import("../src/sdk");
+    const fhevm = await createInstance(hre.network);
+    const auction = new AuctionClient(taskArguments.auctionContract, signers[taskArguments.bidder], fhevm);
+
+    const tranches = (taskArguments.tranches as string).split(",").map((tranche) => {
+      const [price, quantity] = tranche.split(":").map((value) => value.trim());
+      if (!price || !quantity) throw Error(`Invalid tranche "${tranche}", expected "price:quantity"`);
+      return { price, quantity };
+    });
+    const proof = await allowlistProof(auction, taskArguments.allowlistProofs);
+    await bidLadder(auction, tranches, taskArguments.lock, proof);
+  });
+
+task("updateBid")
+  .addParam("auctionContract", "Auction Contract Address")
+  .addParam("price", "New price per token")
+  .addParam("quantity", "New quantity")
+  .addOptionalParam("bidder", "Index of the bidder account", 2, types.int)
+  .addOptionalParam("tranche", "Index of the tranche among the bidder's bids", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const signers = await hre.ethers.getSigners();
+    const { AuctionClient } = await import("../src/sdk");
+    const fhevm = await createInstance(hre.network);
+    const auction = new AuctionClient(taskArguments.auctionContract, signers[taskArguments.bidder], fhevm);
+
+    await updateBid(auction, taskArguments.price, taskArguments.quantity, taskArguments.tranche);
+  });
+
+task("cancelBid")
+  .addParam("auctionContract", "Auction Contract Address")
+  .addOptionalParam("bidder", "Index of the bidder account", 2, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const signers = await hre.ethers.getSigners();
+    const { AuctionClient } = await import("../src/sdk");
+    const auction = new AuctionClient(taskArguments.auctionContract, signers[taskArguments.bidder]);
+
+    await cancelBid(auction);
+  });
+
+task("myBid", "Reencrypts the bids of a bidder account, amounts in base units")
+  .addParam("auctionContract", "Auction Contract Address")
+  .addOptionalParam("bidder", "Index of the bidder account", 2, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const signers = await hre.ethers.getSigners();
+    const { AuctionClient } = await import("../src/sdk");
+    const fhevm = await createInstance(hre.network);
+    const auction = new AuctionClient(taskArguments.auctionContract, signers[taskArguments.bidder], fhevm);
+
+    await myBids(auction);
+  });
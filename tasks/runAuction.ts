@@ -0,0 +1,154 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { deployAuctionFactory } from "../src/deployment";
+import { setCodeMocked } from "../test/mockedSetup";
+
+interface ScenarioBidder {
+  price: string;
+  quantity: string;
+  lock: string;
+}
+
+interface Scenario {
+  auction: {
+    quantity: string;
+    duration: number;
+    maxParticipant: number;
+    ether: boolean;
+    reservePrice?: string;
+  };
+  bidders: ScenarioBidder[];
+}
+
+// A scenario is either a CSV file with a "price,quantity,lock" header, or a JSON file containing
+// the bidders and optionally the auction settings, which take precedence over the task flags
+export function loadScenario(file: string, defaults: Scenario["auction"]): Scenario {
+  const content = fs.readFileSync(file, "utf8");
+  if (path.extname(file).toLowerCase() === ".csv") {
+    const [header, ...rows] = content.split(/\r?\n/).filter((line) => line.trim() !== "");
+    const columns = header.split(",").map((column) => column.trim());
+    for (const required of ["price", "quantity", "lock"]) {
+      if (!columns.includes(required)) throw new Error(`Missing "${required}" column in ${file}`);
+    }
+    const bidders = rows.map((row) => {
+      const values = row.split(",").map((value) => value.trim());
+      return Object.fromEntries(columns.map((column, i) => [column, values[i]])) as unknown as ScenarioBidder;
+    });
+    return { auction: defaults, bidders };
+  }
+  const json = JSON.parse(content);
+  const bidders: ScenarioBidder[] = Array.isArray(json) ? json : json.bidders;
+  return { auction: { ...defaults, ...json.auction }, bidders };
+}
+
+task("auction:run", "Simulates a full auction on the local hardhat network from a scenario file")
+  .addParam("scenario", "Path to a JSON or CSV scenario of bidders (price, quantity, lock)")
+  .addOptionalParam("quantity", "Quantity of asset sold", "100")
+  .addOptionalParam("duration", "Duration of the auction in seconds", 3600, types.int)
+  .addOptionalParam("maxParticipant", "Max Participant", 50, types.int)
+  .addOptionalParam("reservePrice", "Encrypted minimum clearing price per token")
+  .addFlag("ether", "Use Ether instead of an ERC20 as payment token")
+  .setAction(async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    if (hre.network.name !== "hardhat") {
+      throw Error("auction:run relies on the mocked fhevm, it can only be used on the hardhat network");
+    }
+    const { ethers } = hre;
+    const scenario = loadScenario(taskArguments.scenario, {
+      quantity: taskArguments.quantity,
+      duration: taskArguments.duration,
+      maxParticipant: taskArguments.maxParticipant,
+      ether: taskArguments.ether,
+      reservePrice: taskArguments.reservePrice,
+    });
+
+    // The mocked fhevm helpers import hardhat themselves, so they can only be loaded once the config is built
+    await setCodeMocked(hre);
+    const { FactoryClient } = await import("../src/sdk");
+    const { createInstance } = await import("../test/instance");
+    const { awaitAllDecryptionResults, initGateway } = await import("../test/asyncDecrypt");
+    const fhevm = await createInstance();
+    await initGateway();
+
+    const [owner] = await ethers.getSigners();
+    const supply = ethers.parseEther("1000000000");
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const asset = await MockERC20.connect(owner).deploy("Asset Token", "AST", supply);
+    const paymentToken = scenario.auction.ether
+      ? undefined
+      : await MockERC20.connect(owner).deploy("Payment Token", "PAY", supply);
+    const auctionFactory = await deployAuctionFactory(hre, owner);
+
+    const factory = new FactoryClient(await auctionFactory.getAddress(), owner, fhevm);
+    const auction = await factory.createAuction({
+      asset: await asset.getAddress(),
+      paymentToken: paymentToken ? await paymentToken.getAddress() : ethers.ZeroAddress,
+      quantity: scenario.auction.quantity,
+      duration: scenario.auction.duration,
+      maxParticipant: scenario.auction.maxParticipant,
+      reservePrice: scenario.auction.reservePrice,
+    });
+    console.info(`Auction deployed at ${auction.address}, selling ${scenario.auction.quantity} AST`);
+    const ownerAssetBalance = await asset.balanceOf(owner.address);
+
+    // Every bidder gets a fresh wallet funded with enough Ether and payment tokens to lock its funds
+    const bidders = [];
+    for (const bid of scenario.bidders) {
+      const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+      const lock = ethers.parseEther(bid.lock);
+      await ethers.provider.send("hardhat_setBalance", [
+        wallet.address,
+        ethers.toBeHex(lock + ethers.parseEther("10")),
+      ]);
+      if (paymentToken) await (await paymentToken.connect(owner).transfer(wallet.address, lock)).wait();
+
+      const client = auction.connect(wallet);
+      await client.lockFunds(bid.lock);
+      await client.placeBid({ price: bid.price, quantity: bid.quantity });
+      console.info(`${wallet.address} bid ${bid.quantity} AST at ${bid.price} (locked ${bid.lock})`);
+      bidders.push({ wallet, bid });
+    }
+
+    await ethers.provider.send("evm_increaseTime", [scenario.auction.duration + 1]);
+    await ethers.provider.send("evm_mine", []);
+    await auction.settle();
+    await awaitAllDecryptionResults();
+    await auction.distribute();
+    for (const { wallet } of bidders) {
+      const client = auction.connect(wallet);
+      const { asset: assetAmount, refund } = await client.getClaimable();
+      if (assetAmount > 0n || refund > 0n) await client.claim();
+    }
+    // claimProceeds reverts with NothingToClaim when there are neither payments nor unsold assets
+    const [proceeds, unsoldAssets] = await Promise.all([
+      auction.contract.claimableProceeds(),
+      auction.contract.unsoldAssets(),
+    ]);
+    if (proceeds > 0n || unsoldAssets > 0n) await auction.claimProceeds();
+
+    const status = await auction.getStatus();
+    const report = [];
+    for (const { wallet, bid } of bidders) {
+      const allocated = await asset.balanceOf(wallet.address);
+      const paid = (allocated * status.settlementPrice) / ethers.parseEther("1");
+      report.push({
+        bidder: wallet.address,
+        price: bid.price,
+        quantity: bid.quantity,
+        locked: bid.lock,
+        allocated: ethers.formatEther(allocated),
+        paid: ethers.formatEther(paid),
+        refunded: ethers.formatEther(ethers.parseEther(bid.lock) - paid),
+      });
+    }
+
+    console.info("\nClearing Report:");
+    console.info("================");
+    console.info(`Settlement price: ${ethers.formatEther(status.settlementPrice)}`);
+    const unsold = (await asset.balanceOf(owner.address)) - ownerAssetBalance;
+    console.info(`Unsold quantity returned to owner: ${ethers.formatEther(unsold)}`);
+    console.table(report);
+  });
@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, FactoryClient } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFactory } from "../singleAuction/fixtures";
+
+describe("Auction SDK", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+
+    this.duration = 60;
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    this.asset = await MockERC20.connect(this.signers.alice).deploy("Asset Token", "AST", ethers.parseEther("1000000"));
+    await this.asset.waitForDeployment();
+    this.paymentToken = await MockERC20.connect(this.signers.alice).deploy(
+      "Payment Token",
+      "PAY",
+      ethers.parseEther("1000000"),
+    );
+    await this.paymentToken.waitForDeployment();
+
+    this.auctionFactory = await deployAuctionFactory(this.signers.alice);
+
+    await this.asset.connect(this.signers.alice).transfer(this.signers.fred.address, ethers.parseEther("100"));
+    await this.paymentToken.connect(this.signers.alice).transfer(this.signers.bob.address, ethers.parseEther("1000"));
+    await this.paymentToken.connect(this.signers.alice).transfer(this.signers.eve.address, ethers.parseEther("1000"));
+
+    this.factory = new FactoryClient(await this.auctionFactory.getAddress(), this.signers.fred, this.fhevm);
+  });
+
+  it("Should create an auction through the factory client", async function () {
+    this.auction = await this.factory.createAuction({
+      asset: await this.asset.getAddress(),
+      paymentToken: await this.paymentToken.getAddress(),
+      quantity: "100",
+      duration: this.duration,
+      maxParticipant: 50,
+      reservePrice: "0.5",
+    });
+
+    expect(await this.factory.getAllAuctions()).to.deep.equal([this.auction.address]);
+    const status = await this.auction.getStatus();
+    expect(status.owner).to.equal(this.signers.fred.address);
+    expect(status.quantity).to.equal(ethers.parseEther("100"));
+    expect(status.active).to.equal(true);
+    expect(status.bidCount).to.equal(0);
+  });
+
+  it("Should lock funds and place encrypted bids", async function () {
+    const bob: AuctionClient = this.auction.connect(this.signers.bob);
+    await bob.lockFunds("50");
+    await bob.placeBid({ price: "1", quantity: "30" });
+
+    const eve: AuctionClient = this.auction.connect(this.signers.eve);
+    await eve.lockFunds(ethers.parseEther("250"));
+    await eve.placeBid({ price: ethers.parseEther("3"), quantity: ethers.parseEther("80") });
+
+    expect(await this.auction.contract.lockedFunds(this.signers.bob.address)).to.equal(ethers.parseEther("50"));
+    expect((await this.auction.getStatus()).bidCount).to.equal(2);
+  });
+
+  it("Should reencrypt the signer's own bids and tell the zeroed ones", async function () {
+    const bob: AuctionClient = this.auction.connect(this.signers.bob);
+    expect(await bob.getMyBids()).to.deep.equal([
+      { index: 0, tranche: 0, price: ethers.parseEther("1"), quantity: ethers.parseEther("30"), zeroed: false },
+    ]);
+
+    // carol locked nothing, her bid is kept with a zero price and quantity
+    const carol: AuctionClient = this.auction.connect(this.signers.carol);
+    expect(await carol.getMyBids()).to.deep.equal([]);
+    await carol.placeBid({ price: "2", quantity: "10" });
+    expect(await carol.getMyBids()).to.deep.equal([{ index: 2, tranche: 0, price: 0n, quantity: 0n, zeroed: true }]);
+  });
+
+  it("Should refuse to place a bid without an fhevm instance", async function () {
+    const client = new AuctionClient(this.auction.address, this.signers.carol);
+    let error: Error | undefined;
+    try {
+      await client.placeBid({ price: "1", quantity: "1" });
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.equal("An fhevm instance is required to encrypt bids");
+  });
+
+  it("Should settle and distribute the auction", async function () {
+    await ethers.provider.send("evm_increaseTime", [this.duration + 1]);
+    await ethers.provider.send("evm_mine", []);
+
+    await this.auction.settle();
+    await awaitAllDecryptionResults();
+    await this.auction.distribute();
+    await this.auction.connect(this.signers.bob).claim();
+    await this.auction.connect(this.signers.eve).claim();
+    await this.auction.claimProceeds();
+
+    const status = await this.auction.getStatus();
+    expect(status.settled).to.equal(true);
+    expect(status.allDecrypted).to.equal(true);
+    expect(status.settlementPrice).to.equal(ethers.parseEther("1"));
+    expect(await this.asset.balanceOf(this.signers.bob)).to.equal(ethers.parseEther("20"));
+    expect(await this.asset.balanceOf(this.signers.eve)).to.equal(ethers.parseEther("80"));
+  });
+});
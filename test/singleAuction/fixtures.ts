@@ -0,0 +1,146 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmInstance } from "fhevmjs/node";
+import hre, { ethers } from "hardhat";
+
+import * as deployment from "../../src/deployment";
+import { AuctionClient, Pricing, TieBreaking } from "../../src/sdk";
+import { AuctionFactory, MockERC20, PrivateSinglePriceAuction } from "../../types";
+import { Signers } from "../signers";
+
+export interface AuctionFixture {
+  asset: MockERC20;
+  paymentToken?: MockERC20; // undefined when the auction is paid in Ether
+  auctionFactory: AuctionFactory;
+  privateAuction: PrivateSinglePriceAuction;
+}
+
+export interface AuctionFixtureOptions {
+  withEther?: boolean;
+  quantity?: bigint;
+  startTime?: number; // Opens at creation by default
+  duration?: number;
+  extension?: { window: number; duration: number; max: number }; // Bids never extend the auction by default
+  allowlistRoot?: string; // Anyone can bid by default
+  maxParticipant?: number;
+  tieBreaking?: TieBreaking;
+  pricing?: Pricing;
+  homomorphicClearing?: boolean;
+  reserve?: { fhevm: FhevmInstance; price: bigint }; // Encrypted reserve price, none by default
+}
+
+// Deploys the auction implementations on the hardhat network of the tests, see src/deployment
+export async function deployAuctionImplementations(deployer: HardhatEthersSigner) {
+  return deployment.deployAuctionImplementations(hre, deployer);
+}
+
+// Deploys the factory on the hardhat network of the tests, the deployer becomes the guardian
+export async function deployAuctionFactory(deployer: HardhatEthersSigner): Promise<AuctionFactory> {
+  return deployment.deployAuctionFactory(hre, deployer);
+}
+
+// Deploys the tokens and the factory, then creates an auction owned by fred
+export async function deployAuctionFixture(
+  signers: Signers,
+  {
+    withEther = false,
+    quantity = ethers.parseEther("100"),
+    startTime = 0,
+    duration = 60,
+    maxParticipant = 50,
+    tieBreaking = TieBreaking.FirstCome,
+    pricing = Pricing.Uniform,
+    homomorphicClearing = false,
+    extension = { window: 0, duration: 0, max: 0 },
+    allowlistRoot = ethers.ZeroHash,
+    reserve,
+  }: AuctionFixtureOptions = {},
+): Promise<AuctionFixture> {
+  const MockERC20 = await ethers.getContractFactory("MockERC20");
+  const asset = await MockERC20.connect(signers.alice).deploy("Asset Token", "AST", ethers.parseEther("1000000"));
+  await asset.waitForDeployment();
+  let paymentToken: MockERC20 | undefined;
+  if (!withEther) {
+    paymentToken = await MockERC20.connect(signers.alice).deploy("Payment Token", "PAY", ethers.parseEther("1000000"));
+    await paymentToken.waitForDeployment();
+    for (const bidder of [signers.bob, signers.carol, signers.dave, signers.eve]) {
+      await paymentToken.connect(signers.alice).transfer(bidder.address, ethers.parseEther("10000"));
+    }
+  }
+
+  const auctionFactory = await deployAuctionFactory(signers.alice);
+
+  await asset.connect(signers.alice).transfer(signers.fred.address, quantity);
+  await asset.connect(signers.fred).approve(await auctionFactory.getAddress(), quantity);
+  // The factory ignores the reserve price when the proof is empty
+  let reservePrice: [string | Uint8Array, string | Uint8Array] = [ethers.ZeroHash, "0x"];
+  if (reserve) {
+    const input = reserve.fhevm.createEncryptedInput(await auctionFactory.getAddress(), signers.fred.address);
+    input.add256(reserve.price);
+    const encrypted = await input.encrypt();
+    reservePrice = [encrypted.handles[0], encrypted.inputProof];
+  }
+  await auctionFactory.connect(signers.fred).createAuction(
+    {
+      asset: await asset.getAddress(),
+      paymentToken: paymentToken ? await paymentToken.getAddress() : ethers.ZeroAddress,
+      confidentialPayment: false,
+      confidentialAsset: false,
+      homomorphicClearing,
+      quantity,
+      startTime,
+      duration,
+      maxParticipant,
+      tieBreaking,
+      extensionWindow: extension.window,
+      extensionDuration: extension.duration,
+      maxExtension: extension.max,
+      allowlistRoot,
+      pricing,
+    },
+    ...reservePrice,
+  );
+  const auctions = await auctionFactory.getAllAuctions();
+  const privateAuction = await ethers.getContractAt("PrivateSinglePriceAuction", auctions[auctions.length - 1]);
+
+  return { asset, paymentToken, auctionFactory, privateAuction };
+}
+
+export async function lockFunds(
+  { paymentToken, privateAuction }: Pick<AuctionFixture, "paymentToken" | "privateAuction">,
+  bidder: HardhatEthersSigner,
+  amount: bigint,
+) {
+  if (!paymentToken) {
+    return privateAuction.connect(bidder).lockFunds(amount, [], { value: amount });
+  }
+  await paymentToken.connect(bidder).approve(await privateAuction.getAddress(), amount);
+  return privateAuction.connect(bidder).lockFunds(amount, []);
+}
+
+export async function placeBid(
+  fhevm: FhevmInstance,
+  privateAuction: PrivateSinglePriceAuction,
+  bidder: HardhatEthersSigner,
+  quantity: bigint,
+  price: bigint,
+) {
+  const input = fhevm.createEncryptedInput(await privateAuction.getAddress(), bidder.address);
+  input.add256(quantity);
+  input.add256(price);
+  const encrypted = await input.encrypt();
+  return privateAuction
+    .connect(bidder)
+    .placeEncryptedBid(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, []);
+}
+
+// Submits the clearing order computed by the SDK, then distributes every bid in a single batch
+export async function distributeFunds(privateAuction: PrivateSinglePriceAuction, owner: HardhatEthersSigner) {
+  const client = new AuctionClient(await privateAuction.getAddress(), owner);
+  await privateAuction.connect(owner).submitClearingOrder(await client.computeClearingOrder());
+  return privateAuction.connect(owner).distributeFunds(50);
+}
+
+export async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, buildAllowlist } from "../../src/sdk";
+import { initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, increaseTime } from "./fixtures";
+
+describe("PrivateSinglePriceAuction allowlist", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  describe("Bidding", function () {
+    before(async function () {
+      // bob, carol and eve are allowed, dave is not
+      this.allowlist = buildAllowlist([this.signers.bob.address, this.signers.carol.address, this.signers.eve.address]);
+      this.fixture = await deployAuctionFixture(this.signers, { allowlistRoot: this.allowlist.root });
+      Object.assign(this, this.fixture);
+      this.client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.fred, this.fhevm);
+    });
+
+    it("Should store the Merkle root", async function () {
+      expect(await this.privateAuction.allowlistRoot()).to.equal(this.allowlist.root);
+    });
+
+    it("Should let an allowed bidder lock funds and bid with its proof", async function () {
+      const bob = this.client.connect(this.signers.bob);
+      const proof = this.allowlist.proofs[this.signers.bob.address];
+      await bob.lockFunds("100", proof);
+      await bob.placeBid({ price: "2", quantity: "20" }, proof);
+      await bob.placeBidLadder([{ price: "1", quantity: "10" }], proof);
+      expect(await this.privateAuction.bidCount(this.signers.bob)).to.equal(2);
+    });
+
+    it("Should reject a bidder without a valid proof", async function () {
+      const dave = this.client.connect(this.signers.dave);
+      await expect(dave.lockFunds("100")).to.be.revertedWithCustomError(this.privateAuction, "NotAllowlisted");
+      // Another bidder's proof does not prove dave
+      const carolProof = this.allowlist.proofs[this.signers.carol.address];
+      await expect(dave.lockFunds("100", carolProof)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NotAllowlisted",
+      );
+      await expect(dave.placeBid({ price: "2", quantity: "20" }, carolProof)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NotAllowlisted",
+      );
+      expect(await this.privateAuction.bidCount(this.signers.dave)).to.equal(0);
+    });
+  });
+
+  describe("Root update", function () {
+    before(async function () {
+      this.allowlist = buildAllowlist([this.signers.bob.address, this.signers.carol.address]);
+      this.fixture = await deployAuctionFixture(this.signers, { allowlistRoot: this.allowlist.root });
+      Object.assign(this, this.fixture);
+      this.client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.fred, this.fhevm);
+      const bob = this.client.connect(this.signers.bob);
+      await bob.lockFunds("100", this.allowlist.proofs[this.signers.bob.address]);
+    });
+
+    it("Should let the owner only replace the root", async function () {
+      await expect(
+        this.privateAuction.connect(this.signers.bob).setAllowlistRoot(ethers.ZeroHash),
+      ).to.be.revertedWithCustomError(this.privateAuction, "NotOwner");
+
+      // dave joins and bob leaves
+      this.updated = buildAllowlist([this.signers.carol.address, this.signers.dave.address]);
+      await expect(this.privateAuction.connect(this.signers.fred).setAllowlistRoot(this.updated.root))
+        .to.emit(this.privateAuction, "AllowlistRootUpdated")
+        .withArgs(this.updated.root);
+    });
+
+    it("Should check the proofs against the new root", async function () {
+      const dave = this.client.connect(this.signers.dave);
+      await dave.lockFunds("100", this.updated.proofs[this.signers.dave.address]);
+      await dave.placeBid({ price: "2", quantity: "20" }, this.updated.proofs[this.signers.dave.address]);
+
+      // bob's proof was for the previous root, his locked funds stay
+      const bob = this.client.connect(this.signers.bob);
+      await expect(
+        bob.placeBid({ price: "2", quantity: "20" }, this.allowlist.proofs[this.signers.bob.address]),
+      ).to.be.revertedWithCustomError(this.privateAuction, "NotAllowlisted");
+      expect(await this.privateAuction.lockedFunds(this.signers.bob)).to.equal(ethers.parseEther("100"));
+    });
+
+    it("Should open the auction to anyone with an empty root", async function () {
+      await this.client.setAllowlistRoot(ethers.ZeroHash);
+      await this.client.connect(this.signers.eve).lockFunds("100");
+      await this.client.connect(this.signers.eve).placeBid({ price: "1", quantity: "10" });
+      expect(await this.privateAuction.bidCount(this.signers.eve)).to.equal(1);
+    });
+
+    it("Should not replace the root once the bidding is closed", async function () {
+      await increaseTime(61);
+      await expect(this.client.setAllowlistRoot(this.allowlist.root)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "InvalidPhase",
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase } from "../../src/sdk";
+import { initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+// Mines the next transaction `seconds` before the current end of the auction
+const setTimeBeforeEnd = async function (this: Mocha.Context, seconds: number) {
+  const endTime = await this.privateAuction.endTime();
+  await ethers.provider.send("evm_setNextBlockTimestamp", [Number(endTime) - seconds]);
+};
+
+describe("PrivateSinglePriceAuction anti-sniping", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  describe("Extensions", function () {
+    before(async function () {
+      // A bid within 60 seconds of the end extends it by 120 seconds, 200 seconds at most
+      this.fixture = await deployAuctionFixture(this.signers, {
+        duration: 300,
+        extension: { window: 60, duration: 120, max: 200 },
+      });
+      Object.assign(this, this.fixture);
+      this.initialEndTime = await this.privateAuction.endTime();
+      for (const bidder of [this.signers.bob, this.signers.carol, this.signers.dave, this.signers.eve]) {
+        await lockFunds(this.fixture, bidder, ethers.parseEther("100"));
+      }
+    });
+
+    it("Should store the extension rule", async function () {
+      expect(await this.privateAuction.extensionWindow()).to.equal(60);
+      expect(await this.privateAuction.extensionDuration()).to.equal(120);
+      expect(await this.privateAuction.maxEndTime()).to.equal(this.initialEndTime + 200n);
+    });
+
+    it("Should not extend for a bid placed before the window", async function () {
+      await setTimeBeforeEnd.call(this, 100);
+      await expect(
+        placeBid(this.fhevm, this.privateAuction, this.signers.bob, ethers.parseEther("10"), ethers.parseEther("1")),
+      ).not.to.emit(this.privateAuction, "AuctionExtended");
+      expect(await this.privateAuction.endTime()).to.equal(this.initialEndTime);
+    });
+
+    it("Should extend for a bid placed within the window", async function () {
+      await setTimeBeforeEnd.call(this, 30);
+      await expect(
+        placeBid(this.fhevm, this.privateAuction, this.signers.carol, ethers.parseEther("10"), ethers.parseEther("1")),
+      )
+        .to.emit(this.privateAuction, "AuctionExtended")
+        .withArgs(this.initialEndTime + 120n);
+    });
+
+    it("Should extend again for a bid updated within the new window, up to the cap", async function () {
+      await setTimeBeforeEnd.call(this, 10);
+      await new AuctionClient(await this.privateAuction.getAddress(), this.signers.bob, this.fhevm).updateBid({
+        price: "2",
+        quantity: "10",
+      });
+      expect(await this.privateAuction.endTime()).to.equal(this.initialEndTime + 200n);
+    });
+
+    it("Should not extend past the cap", async function () {
+      await setTimeBeforeEnd.call(this, 5);
+      await expect(
+        placeBid(this.fhevm, this.privateAuction, this.signers.dave, ethers.parseEther("10"), ethers.parseEther("1")),
+      ).not.to.emit(this.privateAuction, "AuctionExtended");
+      expect(await this.privateAuction.endTime()).to.equal(this.initialEndTime + 200n);
+    });
+
+    it("Should close at the extended end time", async function () {
+      await increaseTime(6);
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Closed);
+      await expect(
+        placeBid(this.fhevm, this.privateAuction, this.signers.eve, ethers.parseEther("10"), ethers.parseEther("1")),
+      ).to.be.revertedWithCustomError(this.privateAuction, "AuctionNotActive");
+      expect((await this.privateAuction.getAllBids()).length).to.equal(3);
+    });
+  });
+
+  describe("Without extension", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { duration: 60 });
+      Object.assign(this, this.fixture);
+      await lockFunds(this.fixture, this.signers.bob, ethers.parseEther("100"));
+    });
+
+    it("Should not extend for a bid placed in the last second", async function () {
+      const endTime = await this.privateAuction.endTime();
+      await setTimeBeforeEnd.call(this, 1);
+      await expect(
+        placeBid(this.fhevm, this.privateAuction, this.signers.bob, ethers.parseEther("10"), ethers.parseEther("1")),
+      ).not.to.emit(this.privateAuction, "AuctionExtended");
+      expect(await this.privateAuction.endTime()).to.equal(endTime);
+      expect(await this.privateAuction.maxEndTime()).to.equal(endTime);
+    });
+
+    it("Should require a duration and a cap with an extension window", async function () {
+      await expect(
+        deployAuctionFixture(this.signers, { extension: { window: 60, duration: 0, max: 200 } }),
+      ).to.be.revertedWith("Extension needs a duration and a cap");
+      await expect(
+        deployAuctionFixture(this.signers, { extension: { window: 60, duration: 120, max: 0 } }),
+      ).to.be.revertedWith("Extension needs a duration and a cap");
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase } from "../../src/sdk";
+import { initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction cancellation", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  describe("With an ERC20 payment token", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers);
+      Object.assign(this, this.fixture);
+
+      for (const bidder of [this.signers.bob, this.signers.carol]) {
+        await lockFunds(this.fixture, bidder, ethers.parseEther("100"));
+        await placeBid(this.fhevm, this.privateAuction, bidder, ethers.parseEther("40"), ethers.parseEther("2"));
+      }
+    });
+
+    it("Should only let the owner or the factory cancel", async function () {
+      await expect(this.privateAuction.connect(this.signers.bob).cancelAuction()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NotOwner",
+      );
+      await expect(
+        this.auctionFactory.connect(this.signers.fred).cancelAuction(await this.privateAuction.getAddress()),
+      ).to.be.revertedWith("Caller is not the guardian");
+    });
+
+    it("Should return the asset to the owner when cancelled while Open", async function () {
+      const tx = this.privateAuction.connect(this.signers.fred).cancelAuction();
+      await expect(tx).to.changeTokenBalances(
+        this.asset,
+        [this.privateAuction, this.signers.fred],
+        [-ethers.parseEther("100"), ethers.parseEther("100")],
+      );
+      await expect(tx).to.emit(this.privateAuction, "PhaseChanged").withArgs(AuctionPhase.Open, AuctionPhase.Cancelled);
+      await expect(tx)
+        .to.emit(this.privateAuction, "AuctionCancelled")
+        .withArgs(this.signers.fred.address, ethers.parseEther("100"));
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Cancelled);
+    });
+
+    it("Should stop bidding and settlement once cancelled", async function () {
+      await expect(lockFunds(this.fixture, this.signers.dave, 1n)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "AuctionNotActive",
+      );
+      await increaseTime(61);
+      await expect(this.privateAuction.connect(this.signers.fred).settleAuction(0, 50))
+        .to.be.revertedWithCustomError(this.privateAuction, "InvalidPhase")
+        .withArgs(AuctionPhase.Closed, AuctionPhase.Cancelled);
+      await expect(this.privateAuction.connect(this.signers.fred).cancelAuction())
+        .to.be.revertedWithCustomError(this.privateAuction, "InvalidPhase")
+        .withArgs(AuctionPhase.Closed, AuctionPhase.Cancelled);
+    });
+
+    it("Should let every bidder claim their locked funds", async function () {
+      const client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.bob);
+      expect(await client.getClaimable()).to.deep.equal({ asset: 0n, refund: ethers.parseEther("100") });
+
+      for (const bidder of [this.signers.bob, this.signers.carol]) {
+        await expect(this.privateAuction.connect(bidder).claim()).to.changeTokenBalance(
+          this.paymentToken,
+          bidder,
+          ethers.parseEther("100"),
+        );
+      }
+      await expect(this.privateAuction.connect(this.signers.bob).claim()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NothingToClaim",
+      );
+    });
+  });
+
+  describe("With Ether", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { withEther: true });
+      Object.assign(this, this.fixture);
+
+      await lockFunds(this.fixture, this.signers.bob, ethers.parseEther("1"));
+      await placeBid(this.fhevm, this.privateAuction, this.signers.bob, ethers.parseEther("10"), 10n ** 17n);
+      await increaseTime(61);
+    });
+
+    it("Should let the guardian cancel through the factory while Closed", async function () {
+      expect(await this.auctionFactory.guardian()).to.equal(this.signers.alice.address);
+      await expect(this.auctionFactory.connect(this.signers.alice).setGuardian(this.signers.eve.address))
+        .to.emit(this.auctionFactory, "GuardianChanged")
+        .withArgs(this.signers.alice.address, this.signers.eve.address);
+      await expect(
+        this.auctionFactory.connect(this.signers.alice).cancelAuction(await this.privateAuction.getAddress()),
+      ).to.be.revertedWith("Caller is not the guardian");
+
+      await expect(
+        this.auctionFactory.connect(this.signers.eve).cancelAuction(await this.privateAuction.getAddress()),
+      ).to.changeTokenBalance(this.asset, this.signers.fred, ethers.parseEther("100"));
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Cancelled);
+    });
+
+    it("Should refund the locked Ether", async function () {
+      await expect(this.privateAuction.connect(this.signers.bob).claim()).to.changeEtherBalances(
+        [this.privateAuction, this.signers.bob],
+        [-ethers.parseEther("1"), ethers.parseEther("1")],
+      );
+    });
+  });
+
+  describe("After settlement", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { withEther: true });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should not cancel once the settlement started", async function () {
+      await increaseTime(61);
+      await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+      await expect(this.privateAuction.connect(this.signers.fred).cancelAuction())
+        .to.be.revertedWithCustomError(this.privateAuction, "InvalidPhase")
+        .withArgs(AuctionPhase.Closed, AuctionPhase.Decrypted);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, deployAuctionImplementations, increaseTime } from "./fixtures";
+
+describe("AuctionFactory clones", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+
+    this.fixture = await deployAuctionFixture(this.signers, { withEther: true });
+    Object.assign(this, this.fixture);
+    this.client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.fred, this.fhevm);
+  });
+
+  it("Should deploy each auction as a minimal proxy of the implementation", async function () {
+    const implementation = await this.auctionFactory.auctionImplementation();
+    const code = await ethers.provider.getCode(await this.privateAuction.getAddress());
+    // EIP-1167 runtime code, delegating every call to the implementation
+    expect(code).to.equal(
+      `0x363d3d373d3d3d363d73${implementation.slice(2).toLowerCase()}5af43d82803e903d91602b57fd5bf3`,
+    );
+    expect(await this.privateAuction.owner()).to.equal(this.signers.fred.address);
+    expect(await this.privateAuction.factory()).to.equal(await this.auctionFactory.getAddress());
+
+    const [creation] = await this.auctionFactory.queryFilter(this.auctionFactory.filters.AuctionCreated());
+    expect(creation.args.auctionAddress).to.equal(await this.privateAuction.getAddress());
+    expect(creation.args.endTime).to.equal(await this.privateAuction.endTime());
+  });
+
+  it("Should initialize a clone once and never the implementation", async function () {
+    const config = {
+      asset: await this.asset.getAddress(),
+      paymentToken: ethers.ZeroAddress,
+      confidentialPayment: false,
+      confidentialAsset: false,
+      homomorphicClearing: false,
+      quantity: 1,
+      startTime: 0,
+      duration: 60,
+      maxParticipant: 1,
+      tieBreaking: 0,
+      extensionWindow: 0,
+      extensionDuration: 0,
+      maxExtension: 0,
+      allowlistRoot: ethers.ZeroHash,
+      pricing: 0,
+    };
+    const bob = this.privateAuction.connect(this.signers.bob);
+    await expect(bob.initialize(this.signers.bob, config, 0)).to.be.revertedWithCustomError(
+      this.privateAuction,
+      "InvalidInitialization",
+    );
+    const implementation = await ethers.getContractAt(
+      "PrivateSinglePriceAuction",
+      await this.auctionFactory.auctionImplementation(),
+    );
+    await expect(
+      implementation.connect(this.signers.bob).initialize(this.signers.bob, config, 0),
+    ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+  });
+
+  it("Should run the FHE operations and the Gateway decryptions of a clone", async function () {
+    const bob = this.client.connect(this.signers.bob);
+    await bob.lockFunds("100");
+    await bob.placeBid({ price: "2", quantity: "40" });
+    // The ACL lets bob reencrypt a handle computed by the clone
+    expect(await bob.isBidAccepted()).to.equal(true);
+    await increaseTime(61);
+
+    await this.client.settle();
+    // Only the Gateway of the clone config can answer its decryption requests
+    await expect(this.privateAuction.connect(this.signers.bob).callbackDecrypted(1, 0, 0)).to.be.reverted;
+    await awaitAllDecryptionResults();
+    await this.client.distribute();
+    expect(await this.client.getPhase()).to.equal(AuctionPhase.Distributed);
+    expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("40"));
+  });
+
+  it("Should create an auction for a fraction of the gas of deploying one", async function () {
+    const { auctionImplementation } = await deployAuctionImplementations(this.signers.alice);
+    const deployment = (await auctionImplementation.deploymentTransaction()!.wait())!;
+
+    const fixture = await deployAuctionFixture(this.signers, { withEther: true });
+    const creation = (await fixture.auctionFactory.queryFilter(fixture.auctionFactory.filters.AuctionCreated()))[0];
+    const receipt = (await creation.getTransactionReceipt())!;
+
+    if (process.env.REPORT_GAS || process.env.GAS_BENCHMARK) {
+      console.table([
+        { deployment: "Full bytecode (new)", gasUsed: deployment.gasUsed },
+        { deployment: "EIP-1167 clone (createAuction)", gasUsed: receipt.gasUsed },
+      ]);
+    }
+    // The clone and its initialization cost less than a third of a full deployment, asset transfer included
+    expect(receipt.gasUsed * 3n).to.be.below(deployment.gasUsed);
+  });
+});
@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionPhase } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, distributeFunds, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction phases", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  describe("Full lifecycle", function () {
+    before(async function () {
+      this.duration = 60;
+      this.fixture = await deployAuctionFixture(this.signers, { duration: this.duration });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should be Open right after creation", async function () {
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Open);
+      expect(await this.privateAuction.isActive()).to.equal(true);
+    });
+
+    it("Should not allow settling or distributing while Open", async function () {
+      await expect(this.privateAuction.connect(this.signers.fred).settleAuction(0, 50))
+        .to.be.revertedWithCustomError(this.privateAuction, "InvalidPhase")
+        .withArgs(AuctionPhase.Closed, AuctionPhase.Open);
+      await expect(this.privateAuction.connect(this.signers.fred).distributeFunds(50))
+        .to.be.revertedWithCustomError(this.privateAuction, "InvalidPhase")
+        .withArgs(AuctionPhase.Decrypted, AuctionPhase.Open);
+    });
+
+    it("Should accept bids while Open", async function () {
+      await lockFunds(this.fixture, this.signers.bob, ethers.parseEther("100"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers.bob,
+        ethers.parseEther("50"),
+        ethers.parseEther("2"),
+      );
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Open);
+    });
+
+    it("Should be Closed once the end time is reached", async function () {
+      await increaseTime(this.duration + 1);
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Closed);
+      expect(await this.privateAuction.isActive()).to.equal(false);
+      await expect(lockFunds(this.fixture, this.signers.bob, 1n)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "AuctionNotActive",
+      );
+    });
+
+    it("Should move to Decrypting when settled", async function () {
+      await expect(this.privateAuction.connect(this.signers.fred).settleAuction(0, 50))
+        .to.emit(this.privateAuction, "PhaseChanged")
+        .withArgs(AuctionPhase.Closed, AuctionPhase.Decrypting);
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Decrypting);
+    });
+
+    it("Should not allow settling twice or distributing before decryption", async function () {
+      await expect(this.privateAuction.connect(this.signers.fred).settleAuction(0, 50))
+        .to.be.revertedWithCustomError(this.privateAuction, "InvalidPhase")
+        .withArgs(AuctionPhase.Closed, AuctionPhase.Decrypting);
+      await expect(this.privateAuction.connect(this.signers.fred).distributeFunds(50))
+        .to.be.revertedWithCustomError(this.privateAuction, "InvalidPhase")
+        .withArgs(AuctionPhase.Decrypted, AuctionPhase.Decrypting);
+    });
+
+    it("Should move to Decrypted once the Gateway answered every request", async function () {
+      await awaitAllDecryptionResults();
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Decrypted);
+      expect(await this.privateAuction.checkAllDecrypted()).to.equal(true);
+    });
+
+    it("Should move to Distributed and only distribute once", async function () {
+      await expect(distributeFunds(this.privateAuction, this.signers.fred))
+        .to.emit(this.privateAuction, "PhaseChanged")
+        .withArgs(AuctionPhase.Decrypted, AuctionPhase.Distributed);
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Distributed);
+      await this.privateAuction.connect(this.signers.bob).claim();
+      expect(await this.asset.balanceOf(this.signers.bob)).to.equal(ethers.parseEther("50"));
+
+      await expect(this.privateAuction.connect(this.signers.fred).distributeFunds(50))
+        .to.be.revertedWithCustomError(this.privateAuction, "InvalidPhase")
+        .withArgs(AuctionPhase.Decrypted, AuctionPhase.Distributed);
+    });
+  });
+
+  describe("Auction without bids", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { withEther: true });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should go straight from Closed to Decrypted when there is nothing to decrypt", async function () {
+      await increaseTime(61);
+      const tx = this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+      await expect(tx)
+        .to.emit(this.privateAuction, "PhaseChanged")
+        .withArgs(AuctionPhase.Closed, AuctionPhase.Decrypting);
+      await expect(tx)
+        .to.emit(this.privateAuction, "PhaseChanged")
+        .withArgs(AuctionPhase.Decrypting, AuctionPhase.Decrypted);
+
+      await distributeFunds(this.privateAuction, this.signers.fred);
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Distributed);
+      await this.privateAuction.connect(this.signers.fred).claimProceeds();
+      expect(await this.asset.balanceOf(this.signers.fred)).to.equal(ethers.parseEther("100"));
+    });
+  });
+
+  describe("Scheduled start", function () {
+    before(async function () {
+      this.startTime = (await ethers.provider.getBlock("latest"))!.timestamp + 3600;
+      this.fixture = await deployAuctionFixture(this.signers, { startTime: this.startTime, duration: 60 });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should be Pending and refuse funds and bids until the start time", async function () {
+      expect(await this.privateAuction.startTime()).to.equal(this.startTime);
+      expect(await this.privateAuction.endTime()).to.equal(this.startTime + 60);
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Pending);
+      expect(await this.privateAuction.isActive()).to.equal(false);
+      await expect(lockFunds(this.fixture, this.signers.bob, 1n)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "AuctionNotActive",
+      );
+      await expect(
+        placeBid(this.fhevm, this.privateAuction, this.signers.bob, ethers.parseEther("50"), ethers.parseEther("2")),
+      ).to.be.revertedWithCustomError(this.privateAuction, "AuctionNotActive");
+    });
+
+    it("Should open at the start time and close after the duration", async function () {
+      await increaseTime(3600);
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Open);
+      await lockFunds(this.fixture, this.signers.bob, ethers.parseEther("100"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers.bob,
+        ethers.parseEther("50"),
+        ethers.parseEther("2"),
+      );
+      expect((await this.privateAuction.getAllBids()).length).to.equal(1);
+
+      await increaseTime(61);
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Closed);
+    });
+
+    it("Should reject a start time in the past", async function () {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      await expect(
+        this.auctionFactory.connect(this.signers.fred).createAuction(
+          {
+            asset: await this.asset.getAddress(),
+            paymentToken: await this.paymentToken.getAddress(),
+            confidentialPayment: false,
+            confidentialAsset: false,
+            homomorphicClearing: false,
+            quantity: ethers.parseEther("1"),
+            startTime: now - 1,
+            duration: 60,
+            maxParticipant: 50,
+            tieBreaking: 0,
+            extensionWindow: 0,
+            extensionDuration: 0,
+            maxExtension: 0,
+            allowlistRoot: ethers.ZeroHash,
+            pricing: 0,
+          },
+          ethers.ZeroHash,
+          "0x",
+        ),
+      ).to.be.revertedWith("Start time is in the past");
+    });
+  });
+});
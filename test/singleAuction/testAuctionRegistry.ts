@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionPhase, FactoryClient } from "../../src/sdk";
+import { initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFactory } from "./fixtures";
+
+describe("AuctionFactory registry", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+
+    const { alice, fred, carol } = this.signers;
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    this.assetA = await MockERC20.connect(alice).deploy("Asset A", "ASA", ethers.parseEther("1000000"));
+    this.assetB = await MockERC20.connect(alice).deploy("Asset B", "ASB", ethers.parseEther("1000000"));
+    this.paymentToken = await MockERC20.connect(alice).deploy("Payment Token", "PAY", ethers.parseEther("1000000"));
+    await this.assetA.connect(alice).transfer(fred.address, ethers.parseEther("100"));
+    await this.assetB.connect(alice).transfer(fred.address, ethers.parseEther("100"));
+    await this.assetA.connect(alice).transfer(carol.address, ethers.parseEther("100"));
+    await this.paymentToken.connect(alice).transfer(this.signers.bob.address, ethers.parseEther("1000"));
+    this.auctionFactory = await deployAuctionFactory(alice);
+    this.factory = new FactoryClient(await this.auctionFactory.getAddress(), fred, this.fhevm);
+
+    // fred sells A for Ether and B for PAY, carol sells A for PAY through a Dutch auction
+    const settings = { quantity: "100", duration: 600, maxParticipant: 10 };
+    this.auctionA = await this.factory.createAuction({ asset: await this.assetA.getAddress(), ...settings });
+    this.auctionB = await this.factory.createAuction({
+      asset: await this.assetB.getAddress(),
+      paymentToken: await this.paymentToken.getAddress(),
+      ...settings,
+    });
+    this.dutchA = await this.factory.connect(carol).createDutchAuction({
+      asset: await this.assetA.getAddress(),
+      paymentToken: await this.paymentToken.getAddress(),
+      ...settings,
+      startPrice: "5",
+      priceStep: "1",
+      stepDuration: 60,
+      floorPrice: "1",
+    });
+  });
+
+  it("Should page through the auctions in creation order", async function () {
+    const all = [this.auctionA.address, this.auctionB.address, this.dutchA.address];
+    expect(await this.factory.getAuctions(0, 2)).to.deep.equal({ auctions: all.slice(0, 2), total: 3n });
+    expect(await this.factory.getAuctions(1, 10)).to.deep.equal({ auctions: all.slice(1), total: 3n });
+    expect(await this.factory.getAuctions(3, 10)).to.deep.equal({ auctions: [], total: 3n });
+    expect(await this.factory.getAuctions(1, ethers.MaxUint256)).to.deep.equal({ auctions: all.slice(1), total: 3n });
+    expect(await this.factory.getAllAuctions()).to.deep.equal(all);
+  });
+
+  it("Should index the auctions by owner, asset and payment token", async function () {
+    const { fred, carol } = this.signers;
+    expect(await this.factory.getAuctionsByOwner(fred.address)).to.deep.equal({
+      auctions: [this.auctionA.address, this.auctionB.address],
+      total: 2n,
+    });
+    expect(await this.factory.getAuctionsByOwner(carol.address, 0, 1)).to.deep.equal({
+      auctions: [this.dutchA.address],
+      total: 1n,
+    });
+    expect(await this.factory.getAuctionsByAsset(await this.assetA.getAddress(), 1, 1)).to.deep.equal({
+      auctions: [this.dutchA.address],
+      total: 2n,
+    });
+    expect(await this.factory.getAuctionsByPaymentToken(ethers.ZeroAddress)).to.deep.equal({
+      auctions: [this.auctionA.address],
+      total: 1n,
+    });
+    expect(await this.factory.getAuctionsByPaymentToken(await this.paymentToken.getAddress())).to.deep.equal({
+      auctions: [this.auctionB.address, this.dutchA.address],
+      total: 2n,
+    });
+    expect(await this.factory.getAuctionsByOwner(this.signers.dave.address)).to.deep.equal({ auctions: [], total: 0n });
+  });
+
+  it("Should filter a page of auctions by phase", async function () {
+    await this.auctionB.cancel();
+    expect(await this.factory.getAuctionsByPhase(AuctionPhase.Open)).to.deep.equal([
+      this.auctionA.address,
+      this.dutchA.address,
+    ]);
+    expect(await this.factory.getAuctionsByPhase(AuctionPhase.Cancelled, 0, 2)).to.deep.equal([this.auctionB.address]);
+    expect(await this.factory.getAuctionsByPhase(AuctionPhase.Cancelled, 2, 2)).to.deep.equal([]);
+  });
+
+  it("Should summarise either auction type", async function () {
+    const bob = this.dutchA.connect(this.signers.bob);
+    await bob.lockFunds("100");
+    await bob.placeBid({ price: "2", quantity: "50" });
+
+    const summary = await this.factory.getAuctionSummary(this.dutchA.address);
+    expect(summary.dutch).to.equal(true);
+    expect(summary.phase).to.equal(AuctionPhase.Open);
+    expect(summary.participantCount).to.equal(1n);
+    expect(summary.endTime).to.equal(await this.dutchA.contract.endTime());
+
+    const cancelled = await this.factory.getAuctionSummary(this.auctionB.address);
+    expect(cancelled.dutch).to.equal(false);
+    expect(cancelled.phase).to.equal(AuctionPhase.Cancelled);
+    expect(cancelled.participantCount).to.equal(0n);
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction batched settlement", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+
+    this.fixture = await deployAuctionFixture(this.signers);
+    Object.assign(this, this.fixture);
+    this.client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.fred);
+
+    // bob 40 @ 1, carol 30 @ 3, dave 50 @ 2 and eve 20 @ 2 for 100 tokens, cleared at 2
+    for (const [bidder, quantity, price] of [
+      [this.signers.bob, "40", "1"],
+      [this.signers.carol, "30", "3"],
+      [this.signers.dave, "50", "2"],
+      [this.signers.eve, "20", "2"],
+    ] as const) {
+      await lockFunds(this.fixture, bidder, ethers.parseEther("200"));
+      await placeBid(this.fhevm, this.privateAuction, bidder, ethers.parseEther(quantity), ethers.parseEther(price));
+    }
+    await increaseTime(61);
+  });
+
+  it("Should only accept a batch following the previous one", async function () {
+    const fred = this.privateAuction.connect(this.signers.fred);
+    await expect(fred.settleAuction(1, 2)).to.be.revertedWithCustomError(this.privateAuction, "InvalidBatch");
+    await expect(fred.settleAuction(0, 0)).to.be.revertedWithCustomError(this.privateAuction, "InvalidBatch");
+
+    await fred.settleAuction(0, 3);
+    expect(await this.privateAuction.settledBids()).to.equal(3);
+    expect(await this.privateAuction.settled()).to.equal(false);
+    await expect(fred.settleAuction(0, 3)).to.be.revertedWithCustomError(this.privateAuction, "InvalidBatch");
+  });
+
+  it("Should stay Decrypting until the last batch is requested", async function () {
+    await awaitAllDecryptionResults();
+    expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Decrypting);
+
+    const receipts = await this.client.settle(3);
+    expect(receipts.length).to.equal(1);
+    expect(await this.privateAuction.settled()).to.equal(true);
+    await awaitAllDecryptionResults();
+    expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Decrypted);
+  });
+
+  it("Should reject a clearing order that is not sorted by decreasing price", async function () {
+    const fred = this.privateAuction.connect(this.signers.fred);
+    expect(await this.client.computeClearingOrder()).to.deep.equal([1n, 2n, 3n, 0n]);
+
+    await expect(fred.submitClearingOrder([2, 1])).to.be.revertedWithCustomError(
+      this.privateAuction,
+      "InvalidClearingOrder",
+    );
+    // Ties must follow the tie key, and each bid can only appear once
+    await expect(fred.submitClearingOrder([1, 3, 2])).to.be.revertedWithCustomError(
+      this.privateAuction,
+      "InvalidClearingOrder",
+    );
+    await expect(fred.submitClearingOrder([1, 1])).to.be.revertedWithCustomError(
+      this.privateAuction,
+      "InvalidClearingOrder",
+    );
+    await expect(fred.submitClearingOrder([4])).to.be.revertedWithCustomError(
+      this.privateAuction,
+      "InvalidClearingOrder",
+    );
+  });
+
+  it("Should not distribute before the clearing order is complete", async function () {
+    const fred = this.privateAuction.connect(this.signers.fred);
+    await fred.submitClearingOrder([1, 2]);
+    await expect(fred.distributeFunds(10)).to.be.revertedWithCustomError(this.privateAuction, "InvalidClearingOrder");
+
+    // The order is verified, anyone can complete it
+    await this.privateAuction.connect(this.signers.bob).submitClearingOrder([3, 0]);
+    expect(await this.privateAuction.getClearingOrder()).to.deep.equal([1n, 2n, 3n, 0n]);
+    expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("2"));
+    expect(await this.privateAuction.marginalSupply()).to.equal(ethers.parseEther("70"));
+    expect(await this.privateAuction.marginalDemand()).to.equal(ethers.parseEther("70"));
+  });
+
+  it("Should distribute the bids then the refunds over several transactions", async function () {
+    const fred = this.privateAuction.connect(this.signers.fred);
+    await expect(fred.distributeFunds(0)).to.be.revertedWithCustomError(this.privateAuction, "InvalidBatch");
+
+    await fred.distributeFunds(3);
+    expect(await this.privateAuction.distributedBids()).to.equal(3);
+    expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Decrypted);
+
+    // The last bid and 2 of the 4 participants, distributed by a participant
+    await this.privateAuction.connect(this.signers.bob).distributeFunds(3);
+    expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Decrypted);
+    const receipts = await this.client.distribute(3);
+    expect(receipts.length).to.equal(1);
+    expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Distributed);
+
+    expect(await this.privateAuction.claimableAsset(this.signers.carol)).to.equal(ethers.parseEther("30"));
+    expect(await this.privateAuction.claimableAsset(this.signers.dave)).to.equal(ethers.parseEther("50"));
+    expect(await this.privateAuction.claimableAsset(this.signers.eve)).to.equal(ethers.parseEther("20"));
+    expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(0);
+    expect(await this.privateAuction.claimableRefund(this.signers.bob)).to.equal(ethers.parseEther("200"));
+    expect(await this.privateAuction.claimableRefund(this.signers.eve)).to.equal(ethers.parseEther("160"));
+    expect(await this.privateAuction.claimableProceeds()).to.equal(ethers.parseEther("200"));
+    expect(await this.privateAuction.unsoldAssets()).to.equal(0);
+  });
+});
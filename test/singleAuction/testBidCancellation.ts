@@ -0,0 +1,206 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { reencryptEuint256 } from "../reencrypt";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, distributeFunds, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction bid cancellation and update", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  const encryptBid = async function (this: Mocha.Context, bidder: string, quantity: bigint, price: bigint) {
+    const input = this.fhevm.createEncryptedInput(await this.privateAuction.getAddress(), bidder);
+    input.add256(quantity);
+    input.add256(price);
+    return input.encrypt();
+  };
+
+  const reencryptBid = async function (this: Mocha.Context, index: number) {
+    const bids = await this.privateAuction.getAllBids();
+    const bidder = await ethers.getSigner(bids[index][0]);
+    const address = await this.privateAuction.getAddress();
+    return [
+      await reencryptEuint256(bidder, this.fhevm, bids[index][1], address),
+      await reencryptEuint256(bidder, this.fhevm, bids[index][2], address),
+    ];
+  };
+
+  describe("With an ERC20 payment token", function () {
+    before(async function () {
+      this.duration = 120;
+      this.fixture = await deployAuctionFixture(this.signers, { duration: this.duration });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should revert when updating or cancelling without a bid", async function () {
+      const encrypted = await encryptBid.call(this, this.signers.bob.address, 1n, 1n);
+      await expect(
+        this.privateAuction
+          .connect(this.signers.bob)
+          .updateBid(0, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof),
+      ).to.be.revertedWithCustomError(this.privateAuction, "NoBid");
+      await expect(this.privateAuction.connect(this.signers.bob).cancelBid()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NoBid",
+      );
+    });
+
+    it("Should place bids for bob, carol and dave", async function () {
+      await lockFunds(this.fixture, this.signers.bob, ethers.parseEther("100"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers.bob,
+        ethers.parseEther("40"),
+        ethers.parseEther("2"),
+      );
+      await lockFunds(this.fixture, this.signers.carol, ethers.parseEther("100"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers.carol,
+        ethers.parseEther("50"),
+        ethers.parseEther("2"),
+      );
+      await lockFunds(this.fixture, this.signers.dave, ethers.parseEther("300"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers.dave,
+        ethers.parseEther("60"),
+        ethers.parseEther("1"),
+      );
+      expect((await this.privateAuction.getAllBids()).length).to.equal(3);
+    });
+
+    it("Should let carol cancel her bid and get her locked funds back", async function () {
+      const balanceBefore = await this.paymentToken.balanceOf(this.signers.carol);
+      await expect(this.privateAuction.connect(this.signers.carol).cancelBid())
+        .to.emit(this.privateAuction, "BidCancelled")
+        .withArgs(this.signers.carol.address, ethers.parseEther("100"));
+
+      expect(await this.paymentToken.balanceOf(this.signers.carol)).to.equal(balanceBefore + ethers.parseEther("100"));
+      expect(await this.privateAuction.lockedFunds(this.signers.carol)).to.equal(0);
+      expect(await this.privateAuction.hasParticipated(this.signers.carol)).to.equal(false);
+
+      // The remaining bids keep their order
+      const bids = await this.privateAuction.getAllBids();
+      expect(bids.map((bid: [string, bigint, bigint]) => bid[0])).to.deep.equal([
+        this.signers.bob.address,
+        this.signers.dave.address,
+      ]);
+      expect(await this.privateAuction.lockedParticipant(0)).to.equal(this.signers.bob.address);
+      expect(await this.privateAuction.lockedParticipant(1)).to.equal(this.signers.dave.address);
+      await expect(this.privateAuction.lockedParticipant(2)).to.be.reverted;
+    });
+
+    it("Should zero an update that is not covered by the locked funds", async function () {
+      const encrypted = await encryptBid.call(
+        this,
+        this.signers.bob.address,
+        ethers.parseEther("40"),
+        ethers.parseEther("5"),
+      );
+      await expect(
+        this.privateAuction
+          .connect(this.signers.bob)
+          .updateBid(0, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof),
+      ).to.emit(this.privateAuction, "EncryptedBidUpdated");
+      expect(await reencryptBid.call(this, 0)).to.deep.equal([0n, 0n]);
+    });
+
+    it("Should let bob replace his bid once he locked more funds", async function () {
+      await lockFunds(this.fixture, this.signers.bob, ethers.parseEther("100"));
+      const encrypted = await encryptBid.call(
+        this,
+        this.signers.bob.address,
+        ethers.parseEther("40"),
+        ethers.parseEther("5"),
+      );
+      await this.privateAuction
+        .connect(this.signers.bob)
+        .updateBid(0, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+
+      expect(await reencryptBid.call(this, 0)).to.deep.equal([ethers.parseEther("40"), ethers.parseEther("5")]);
+      expect((await this.privateAuction.getAllBids()).length).to.equal(2);
+    });
+
+    it("Should let carol bid again after cancelling", async function () {
+      await lockFunds(this.fixture, this.signers.carol, ethers.parseEther("30"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers.carol,
+        ethers.parseEther("30"),
+        ethers.parseEther("1"),
+      );
+      expect((await this.privateAuction.getAllBids())[2][0]).to.equal(this.signers.carol.address);
+      expect(await this.privateAuction.lockedParticipant(2)).to.equal(this.signers.carol.address);
+    });
+
+    it("Should not allow cancelling or updating once the auction is closed", async function () {
+      await increaseTime(this.duration + 1);
+      await expect(this.privateAuction.connect(this.signers.dave).cancelBid()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "AuctionNotActive",
+      );
+    });
+
+    it("Should settle with the updated bids", async function () {
+      await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+      await awaitAllDecryptionResults();
+      await distributeFunds(this.privateAuction, this.signers.fred);
+      await this.privateAuction.connect(this.signers.bob).claim();
+      await this.privateAuction.connect(this.signers.dave).claim();
+      await this.privateAuction.connect(this.signers.fred).claimProceeds();
+
+      // bob 40 @ 5, dave 60 @ 1 fill the 100 tokens, carol's 30 @ 1 comes last
+      expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("1"));
+      expect(await this.asset.balanceOf(this.signers.bob)).to.equal(ethers.parseEther("40"));
+      expect(await this.asset.balanceOf(this.signers.dave)).to.equal(ethers.parseEther("60"));
+      expect(await this.asset.balanceOf(this.signers.carol)).to.equal(0);
+      expect(await this.paymentToken.balanceOf(this.signers.fred)).to.equal(ethers.parseEther("100"));
+    });
+  });
+
+  describe("With Ether", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { withEther: true });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should refund the locked Ether when cancelling", async function () {
+      await lockFunds(this.fixture, this.signers.eve, ethers.parseEther("10"));
+      await placeBid(this.fhevm, this.privateAuction, this.signers.eve, ethers.parseEther("5"), ethers.parseEther("1"));
+
+      await expect(this.privateAuction.connect(this.signers.eve).cancelBid()).to.changeEtherBalances(
+        [this.signers.eve, this.privateAuction],
+        [ethers.parseEther("10"), -ethers.parseEther("10")],
+      );
+      expect((await this.privateAuction.getAllBids()).length).to.equal(0);
+    });
+
+    it("Should refund the funds locked without a bid", async function () {
+      await lockFunds(this.fixture, this.signers.dave, ethers.parseEther("3"));
+
+      await expect(this.privateAuction.connect(this.signers.dave).cancelBid()).to.changeEtherBalances(
+        [this.signers.dave, this.privateAuction],
+        [ethers.parseEther("3"), -ethers.parseEther("3")],
+      );
+      expect(await this.privateAuction.lockedFunds(this.signers.dave)).to.equal(0);
+      expect(await this.privateAuction.participantCount()).to.equal(0);
+      await expect(this.privateAuction.lockedParticipant(0)).to.be.reverted;
+      await expect(this.privateAuction.connect(this.signers.dave).cancelBid()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NoBid",
+      );
+    });
+  });
+});
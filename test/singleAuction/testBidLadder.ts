@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { reencryptEbool, reencryptEuint256 } from "../reencrypt";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, distributeFunds, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction bid ladders", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  const reencryptBid = async function (this: Mocha.Context, index: number) {
+    const bids = await this.privateAuction.getAllBids();
+    const bidder = await ethers.getSigner(bids[index][0]);
+    const address = await this.privateAuction.getAddress();
+    return [
+      await reencryptEuint256(bidder, this.fhevm, bids[index][1], address),
+      await reencryptEuint256(bidder, this.fhevm, bids[index][2], address),
+    ];
+  };
+
+  describe("With an ERC20 payment token", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { duration: 120 });
+      Object.assign(this, this.fixture);
+      this.client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.bob, this.fhevm);
+    });
+
+    it("Should place every tranche of a ladder as a separate bid", async function () {
+      await this.client.lockFunds(ethers.parseEther("100"));
+      await this.client.placeBidLadder([
+        { price: "3", quantity: "10" },
+        { price: "2", quantity: "20" },
+      ]);
+
+      const bids = await this.privateAuction.getAllBids();
+      expect(bids.map((bid: [string, bigint, bigint]) => bid[0])).to.deep.equal([
+        this.signers.bob.address,
+        this.signers.bob.address,
+      ]);
+      expect(await this.privateAuction.bidCount(this.signers.bob)).to.equal(2);
+      expect(await this.privateAuction.participantCount()).to.equal(1);
+      expect(await reencryptBid.call(this, 1)).to.deep.equal([ethers.parseEther("20"), ethers.parseEther("2")]);
+      expect(await this.client.isBidAccepted()).to.equal(true);
+    });
+
+    it("Should zero a tranche exceeding the funds left by the other tranches", async function () {
+      // 10 * 3 + 20 * 2 = 70 are already committed out of 100
+      await this.client.placeBidLadder([{ price: "1", quantity: "40" }]);
+      expect(await reencryptBid.call(this, 2)).to.deep.equal([0n, 0n]);
+      expect(await this.client.isBidAccepted()).to.equal(false);
+    });
+
+    it("Should let only the bidder reencrypt whether its last tranche was accepted", async function () {
+      const accepted = await this.privateAuction.bidAccepted(this.signers.bob);
+      const address = await this.privateAuction.getAddress();
+      expect(await reencryptEbool(this.signers.bob, this.fhevm, accepted, address)).to.equal(false);
+      let error: Error | undefined;
+      try {
+        await reencryptEbool(this.signers.carol, this.fhevm, accepted, address);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal("User is not authorized to reencrypt this handle!");
+      expect(await this.client.connect(this.signers.carol).isBidAccepted()).to.equal(false);
+    });
+
+    it("Should revert past the maximum number of tranches", async function () {
+      expect(await this.privateAuction.MAX_BIDS_PER_BIDDER()).to.equal(3);
+      await expect(this.client.placeBid({ price: "1", quantity: "1" })).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "TooManyBids",
+      );
+    });
+
+    it("Should revert when the quantities and prices do not match", async function () {
+      const input = this.fhevm.createEncryptedInput(await this.privateAuction.getAddress(), this.signers.carol.address);
+      input.add256(1n);
+      input.add256(1n);
+      input.add256(1n);
+      const encrypted = await input.encrypt();
+      await expect(
+        this.privateAuction
+          .connect(this.signers.carol)
+          .placeEncryptedBidLadder(
+            [encrypted.handles[0], encrypted.handles[1]],
+            [encrypted.handles[2]],
+            encrypted.inputProof,
+            [],
+          ),
+      ).to.be.revertedWithCustomError(this.privateAuction, "InvalidParams");
+    });
+
+    it("Should update a tranche by index against the funds of the other tranches", async function () {
+      // The zeroed third tranche frees nothing, 30 @ 1 uses the 30 left
+      await this.client.updateBid({ price: "1", quantity: "30" }, 2);
+      expect(await reencryptBid.call(this, 2)).to.deep.equal([ethers.parseEther("30"), ethers.parseEther("1")]);
+
+      // Freeing 40 from the second tranche is not enough to bid 20 @ 3 in its place
+      const rcpt = await this.client.updateBid({ price: "3", quantity: "20" }, 1);
+      expect(await reencryptBid.call(this, 1)).to.deep.equal([0n, 0n]);
+      const checked = rcpt.logs
+        .map((log: { topics: string[]; data: string }) => this.privateAuction.interface.parseLog(log))
+        .find((event: { name: string } | null) => event?.name === "BidChecked");
+      expect(checked.args).to.deep.equal([
+        this.signers.bob.address,
+        await this.privateAuction.bidAccepted(this.signers.bob),
+      ]);
+      expect(await this.client.isBidAccepted()).to.equal(false);
+
+      await this.client.updateBid({ price: "2", quantity: "10" }, 1);
+      expect(await reencryptBid.call(this, 1)).to.deep.equal([ethers.parseEther("10"), ethers.parseEther("2")]);
+      expect(await this.client.isBidAccepted()).to.equal(true);
+
+      await expect(this.client.updateBid({ price: "1", quantity: "1" }, 3)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NoBid",
+      );
+    });
+
+    it("Should cancel all the tranches of a bidder and keep the other bids in order", async function () {
+      await lockFunds(this.fixture, this.signers.carol, ethers.parseEther("100"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers.carol,
+        ethers.parseEther("10"),
+        ethers.parseEther("2"),
+      );
+      const dave = this.client.connect(this.signers.dave);
+      await dave.lockFunds("100");
+      await dave.placeBidLadder([
+        { price: "4", quantity: "10" },
+        { price: "1", quantity: "40" },
+      ]);
+
+      await expect(this.privateAuction.connect(this.signers.dave).cancelBid()).to.changeTokenBalance(
+        this.paymentToken,
+        this.signers.dave,
+        ethers.parseEther("100"),
+      );
+      expect(await this.privateAuction.bidCount(this.signers.dave)).to.equal(0);
+      expect(await this.privateAuction.bidAccepted(this.signers.dave)).to.equal(0n);
+      expect(await this.privateAuction.participantCount()).to.equal(2);
+      const bids = await this.privateAuction.getAllBids();
+      expect(bids.length).to.equal(4);
+      expect(bids[3][0]).to.equal(this.signers.carol.address);
+
+      await dave.lockFunds("100");
+      await dave.placeBidLadder([
+        { price: "4", quantity: "10" },
+        { price: "1", quantity: "40" },
+      ]);
+      expect(await reencryptBid.call(this, 5)).to.deep.equal([ethers.parseEther("40"), ethers.parseEther("1")]);
+    });
+
+    it("Should allocate each tranche as a separate bid", async function () {
+      // dave 10 @ 4, bob 10 @ 3, bob 10 @ 2, carol 10 @ 2 and bob 30 @ 1 are filled,
+      // then 30 of dave 40 @ 1 clear the auction at 1
+      await increaseTime(121);
+      await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+      await awaitAllDecryptionResults();
+      await distributeFunds(this.privateAuction, this.signers.fred);
+
+      expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("1"));
+      expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("50"));
+      expect(await this.privateAuction.claimableAsset(this.signers.carol)).to.equal(ethers.parseEther("10"));
+      expect(await this.privateAuction.claimableAsset(this.signers.dave)).to.equal(ethers.parseEther("40"));
+      expect(await this.privateAuction.claimableRefund(this.signers.bob)).to.equal(ethers.parseEther("50"));
+      expect(await this.privateAuction.unsoldAssets()).to.equal(0);
+    });
+  });
+});
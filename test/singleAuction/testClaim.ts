@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, distributeFunds, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction claims", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  describe("With a bidder rejecting Ether", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { withEther: true });
+      Object.assign(this, this.fixture);
+
+      const RejectingBidder = await ethers.getContractFactory("RejectingBidder");
+      this.rejectingBidder = await RejectingBidder.connect(this.signers.carol).deploy(
+        await this.privateAuction.getAddress(),
+      );
+      await this.rejectingBidder.waitForDeployment();
+    });
+
+    it("Should accept bids from the rejecting contract and an honest bidder", async function () {
+      await lockFunds(this.fixture, this.signers.bob, ethers.parseEther("200"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers.bob,
+        ethers.parseEther("60"),
+        ethers.parseEther("2"),
+      );
+
+      // The encrypted input is bound to the bidder contract, which forwards it to the auction
+      const rejectingAddress = await this.rejectingBidder.getAddress();
+      await this.rejectingBidder.connect(this.signers.carol).lockFunds({ value: ethers.parseEther("200") });
+      const input = this.fhevm.createEncryptedInput(await this.privateAuction.getAddress(), rejectingAddress);
+      input.add256(ethers.parseEther("60"));
+      input.add256(ethers.parseEther("1"));
+      const encrypted = await input.encrypt();
+      await this.rejectingBidder
+        .connect(this.signers.carol)
+        .placeEncryptedBid(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+
+      expect((await this.privateAuction.getAllBids()).length).to.equal(2);
+    });
+
+    it("Should not allow claiming before funds are distributed", async function () {
+      await expect(this.privateAuction.connect(this.signers.bob).claim()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "InvalidPhase",
+      );
+    });
+
+    it("Should distribute without transferring anything", async function () {
+      await increaseTime(61);
+      await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+      await awaitAllDecryptionResults();
+      await expect(distributeFunds(this.privateAuction, this.signers.fred)).to.changeEtherBalance(
+        this.privateAuction,
+        0,
+      );
+
+      // bob 60 @ 2 and the rejecting bidder 40 @ 1, cleared at 1
+      const rejectingAddress = await this.rejectingBidder.getAddress();
+      expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("60"));
+      expect(await this.privateAuction.claimableRefund(this.signers.bob)).to.equal(ethers.parseEther("140"));
+      expect(await this.privateAuction.claimableAsset(rejectingAddress)).to.equal(ethers.parseEther("40"));
+      expect(await this.privateAuction.claimableRefund(rejectingAddress)).to.equal(ethers.parseEther("160"));
+      expect(await this.privateAuction.claimableProceeds()).to.equal(ethers.parseEther("100"));
+      expect(await this.privateAuction.unsoldAssets()).to.equal(0);
+    });
+
+    it("Should let the honest bidder claim even though the rejecting bidder cannot", async function () {
+      await expect(this.rejectingBidder.connect(this.signers.carol).claim()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "EtherRefundFailed",
+      );
+
+      await expect(this.privateAuction.connect(this.signers.bob).claim())
+        .to.emit(this.privateAuction, "Claimed")
+        .withArgs(this.signers.bob.address, ethers.parseEther("60"), ethers.parseEther("140"));
+      expect(await this.asset.balanceOf(this.signers.bob)).to.equal(ethers.parseEther("60"));
+    });
+
+    it("Should not allow claiming twice", async function () {
+      await expect(this.privateAuction.connect(this.signers.bob).claim()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NothingToClaim",
+      );
+    });
+
+    it("Should let only the owner claim the proceeds", async function () {
+      await expect(this.privateAuction.connect(this.signers.bob).claimProceeds()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NotOwner",
+      );
+      await expect(this.privateAuction.connect(this.signers.fred).claimProceeds()).to.changeEtherBalance(
+        this.signers.fred,
+        ethers.parseEther("100"),
+      );
+      await expect(this.privateAuction.connect(this.signers.fred).claimProceeds()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NothingToClaim",
+      );
+
+      // Only the assets and refund of the rejecting bidder are left
+      expect(await this.asset.balanceOf(await this.privateAuction.getAddress())).to.equal(ethers.parseEther("40"));
+      expect(await ethers.provider.getBalance(await this.privateAuction.getAddress())).to.equal(
+        ethers.parseEther("160"),
+      );
+    });
+  });
+
+  describe("With unsold assets", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers);
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should return the unsold assets with the proceeds", async function () {
+      await lockFunds(this.fixture, this.signers.dave, ethers.parseEther("100"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers.dave,
+        ethers.parseEther("30"),
+        ethers.parseEther("3"),
+      );
+      await increaseTime(61);
+      await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+      await awaitAllDecryptionResults();
+      await distributeFunds(this.privateAuction, this.signers.fred);
+
+      await expect(this.privateAuction.connect(this.signers.fred).claimProceeds())
+        .to.emit(this.privateAuction, "ProceedsClaimed")
+        .withArgs(this.signers.fred.address, ethers.parseEther("90"), ethers.parseEther("70"));
+      expect(await this.asset.balanceOf(this.signers.fred)).to.equal(ethers.parseEther("70"));
+      expect(await this.paymentToken.balanceOf(this.signers.fred)).to.equal(ethers.parseEther("90"));
+
+      await this.privateAuction.connect(this.signers.dave).claim();
+      expect(await this.asset.balanceOf(this.signers.dave)).to.equal(ethers.parseEther("30"));
+      expect(await this.paymentToken.balanceOf(this.signers.dave)).to.equal(ethers.parseEther("9910"));
+    });
+  });
+});
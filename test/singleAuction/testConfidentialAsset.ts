@@ -0,0 +1,159 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase, FactoryClient, Pricing, TieBreaking } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { reencryptEuint64 } from "../reencrypt";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFactory, increaseTime } from "./fixtures";
+
+const units = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("PrivateSinglePriceAuction with a confidential asset", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  // Deploys a confidential asset minted to the owner, a confidential payment token minted to the bidders and an
+  // auction of 100 tokens
+  const deployConfidentialAuction = async function (this: Mocha.Context) {
+    const { alice, fred } = this.signers;
+    const MockConfidentialERC20 = await ethers.getContractFactory("MockConfidentialERC20");
+    this.asset = await MockConfidentialERC20.connect(alice).deploy("Confidential Asset", "cAST");
+    this.paymentToken = await MockConfidentialERC20.connect(alice).deploy("Confidential USD", "cUSD");
+    await this.asset.connect(alice).mint(fred.address, units("100"));
+    for (const bidder of [this.signers.bob, this.signers.carol, this.signers.dave]) {
+      await this.paymentToken.connect(alice).mint(bidder.address, units("1000"));
+    }
+    this.auctionFactory = await deployAuctionFactory(alice);
+
+    this.factory = new FactoryClient(await this.auctionFactory.getAddress(), fred, this.fhevm);
+    this.client = await this.factory.createAuction({
+      asset: await this.asset.getAddress(),
+      paymentToken: await this.paymentToken.getAddress(),
+      confidentialPayment: true,
+      confidentialAsset: true,
+      homomorphicClearing: true,
+      quantity: "100",
+      duration: 60,
+      maxParticipant: 50,
+    });
+    this.privateAuction = this.client.contract;
+  };
+
+  const balanceOf = async function (this: Mocha.Context, token: string, account: HardhatEthersSigner) {
+    const contract = token === "asset" ? this.asset : this.paymentToken;
+    const handle = await contract.balanceOf(account.address);
+    return reencryptEuint64(account, this.fhevm, handle, await contract.getAddress());
+  };
+
+  describe("Settlement", function () {
+    before(async function () {
+      await deployConfidentialAuction.call(this);
+    });
+
+    it("Should require a confidential payment, homomorphic clearing and uniform pricing", async function () {
+      const factory = this.factory as FactoryClient;
+      const params = {
+        asset: await this.asset.getAddress(),
+        paymentToken: await this.paymentToken.getAddress(),
+        confidentialAsset: true,
+        quantity: "10",
+        duration: 60,
+        maxParticipant: 50,
+      };
+      await expect(factory.createAuction(params)).to.be.revertedWith("Confidential asset needs a confidential payment");
+      await expect(factory.createAuction({ ...params, confidentialPayment: true })).to.be.revertedWith(
+        "Confidential asset needs homomorphic clearing",
+      );
+      const homomorphic = { ...params, confidentialPayment: true, homomorphicClearing: true };
+      await expect(factory.createAuction({ ...homomorphic, tieBreaking: TieBreaking.ProRata })).to.be.revertedWith(
+        "Homomorphic clearing needs first-come ties",
+      );
+      await expect(factory.createAuction({ ...homomorphic, pricing: Pricing.SecondPrice })).to.be.revertedWith(
+        "Confidential asset needs uniform pricing",
+      );
+    });
+
+    it("Should hold the encrypted asset", async function () {
+      expect(await this.privateAuction.confidentialAsset()).to.equal(true);
+      expect(await balanceOf.call(this, "asset", this.signers.fred)).to.equal(0);
+    });
+
+    it("Should reveal the clearing price only", async function () {
+      // bob 60 @ 3 and carol 30 @ 2 are covered, dave's bid is zeroed as nothing was locked
+      const [bob, carol, dave] = [this.signers.bob, this.signers.carol, this.signers.dave];
+      const client = this.client as AuctionClient;
+      await client.connect(bob).lockFunds("300");
+      await client.connect(carol).lockFunds("200");
+      await client.connect(bob).placeBid({ price: "3", quantity: "60" });
+      await client.connect(carol).placeBid({ price: "2", quantity: "30" });
+      await client.connect(dave).placeBid({ price: "2", quantity: "10" });
+      await increaseTime(61);
+
+      await client.settle(3, 9);
+      expect(await this.privateAuction.getAllDecryptedBids()).to.have.length(0);
+      // A single decryption request, for the clearing price
+      await expect(this.privateAuction.requestIds(1)).to.be.reverted;
+      await awaitAllDecryptionResults();
+      expect(await this.privateAuction.settlementPrice()).to.equal(units("2"));
+      expect(await this.privateAuction.getAllDecryptedBids()).to.have.length(0);
+
+      await client.distribute(3);
+      expect(await client.getPhase()).to.equal(AuctionPhase.Distributed);
+      expect(await this.privateAuction.unsoldAssets()).to.equal(0);
+      expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(0);
+    });
+
+    it("Should let each winner reencrypt its allocation", async function () {
+      expect(await this.client.connect(this.signers.bob).getEncryptedAllocation()).to.equal(units("60"));
+      expect(await this.client.connect(this.signers.carol).getEncryptedAllocation()).to.equal(units("30"));
+      expect(await this.client.connect(this.signers.dave).getEncryptedAllocation()).to.equal(0);
+      expect(await this.client.connect(this.signers.carol).getEncryptedRefund()).to.equal(units("140"));
+    });
+
+    it("Should transfer the encrypted allocations and refunds", async function () {
+      // bob pays 120 of 300 and carol 60 of 200
+      for (const [bidder, asset, balance] of [
+        [this.signers.bob, units("60"), units("880")],
+        [this.signers.carol, units("30"), units("940")],
+      ] as const) {
+        await this.client.connect(bidder).claim();
+        expect(await balanceOf.call(this, "asset", bidder)).to.equal(asset);
+        expect(await balanceOf.call(this, "payment", bidder)).to.equal(balance);
+      }
+      expect(await this.client.connect(this.signers.bob).getEncryptedAllocation()).to.equal(0);
+      // Every bidder has an encrypted allocation, so that a losing bidder cannot be told apart by a failing claim
+      const dave = this.signers.dave;
+      await this.client.connect(dave).claim();
+      expect(await balanceOf.call(this, "asset", dave)).to.equal(0);
+      await expect(this.privateAuction.connect(dave).claim()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NothingToClaim",
+      );
+    });
+
+    it("Should pay the encrypted proceeds and unsold asset to the owner", async function () {
+      await this.client.claimProceeds();
+      expect(await balanceOf.call(this, "payment", this.signers.fred)).to.equal(units("180"));
+      expect(await balanceOf.call(this, "asset", this.signers.fred)).to.equal(units("10"));
+      await expect(this.client.claimProceeds()).to.be.revertedWithCustomError(this.privateAuction, "NothingToClaim");
+    });
+  });
+
+  describe("Cancellation", function () {
+    before(async function () {
+      await deployConfidentialAuction.call(this);
+    });
+
+    it("Should return the encrypted asset to the owner", async function () {
+      await this.client.cancel();
+      expect(await balanceOf.call(this, "asset", this.signers.fred)).to.equal(units("100"));
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { reencryptEuint64 } from "../reencrypt";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFactory, increaseTime } from "./fixtures";
+
+const units = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("PrivateSinglePriceAuction with a confidential payment token", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  // Deploys a 6 decimals asset, a confidential payment token minted to the bidders and an auction of 100 tokens
+  const deployConfidentialAuction = async function (this: Mocha.Context) {
+    const { alice, fred } = this.signers;
+    const MockERC20WithDecimals = await ethers.getContractFactory("MockERC20WithDecimals");
+    this.asset = await MockERC20WithDecimals.connect(alice).deploy("Asset Token", "AST", units("1000000"), 6);
+    this.paymentToken = await (await ethers.getContractFactory("MockConfidentialERC20"))
+      .connect(alice)
+      .deploy("Confidential USD", "cUSD");
+    for (const bidder of [this.signers.bob, this.signers.carol, this.signers.dave, this.signers.eve]) {
+      await this.paymentToken.connect(alice).mint(bidder.address, units("1000"));
+    }
+    this.auctionFactory = await deployAuctionFactory(alice);
+
+    await this.asset.connect(alice).transfer(fred.address, units("100"));
+    await this.asset.connect(fred).approve(await this.auctionFactory.getAddress(), units("100"));
+    await this.auctionFactory.connect(fred).createAuction(
+      {
+        asset: await this.asset.getAddress(),
+        paymentToken: await this.paymentToken.getAddress(),
+        confidentialPayment: true,
+        confidentialAsset: false,
+        homomorphicClearing: false,
+        quantity: units("100"),
+        startTime: 0,
+        duration: 60,
+        maxParticipant: 50,
+        tieBreaking: 0,
+        extensionWindow: 0,
+        extensionDuration: 0,
+        maxExtension: 0,
+        allowlistRoot: ethers.ZeroHash,
+        pricing: 0,
+      },
+      ethers.ZeroHash,
+      "0x",
+    );
+    const auctions = await this.auctionFactory.getAllAuctions();
+    this.privateAuction = await ethers.getContractAt("PrivateSinglePriceAuction", auctions[auctions.length - 1]);
+    this.client = new AuctionClient(await this.privateAuction.getAddress(), fred, this.fhevm);
+  };
+
+  const balanceOf = async function (this: Mocha.Context, account: HardhatEthersSigner) {
+    const handle = await this.paymentToken.balanceOf(account.address);
+    return reencryptEuint64(account, this.fhevm, handle, await this.paymentToken.getAddress());
+  };
+
+  const lockedFundsOf = async function (this: Mocha.Context, bidder: HardhatEthersSigner) {
+    const handle = await this.privateAuction.encryptedLockedFunds(bidder.address);
+    return reencryptEuint64(bidder, this.fhevm, handle, await this.privateAuction.getAddress());
+  };
+
+  describe("Settlement", function () {
+    before(async function () {
+      await deployConfidentialAuction.call(this);
+    });
+
+    it("Should require a payment token", async function () {
+      await expect(
+        this.auctionFactory.connect(this.signers.fred).createAuction(
+          {
+            asset: await this.asset.getAddress(),
+            paymentToken: ethers.ZeroAddress,
+            confidentialPayment: true,
+            confidentialAsset: false,
+            homomorphicClearing: false,
+            quantity: units("100"),
+            startTime: 0,
+            duration: 60,
+            maxParticipant: 50,
+            tieBreaking: 0,
+            extensionWindow: 0,
+            extensionDuration: 0,
+            maxExtension: 0,
+            allowlistRoot: ethers.ZeroHash,
+            pricing: 0,
+          },
+          ethers.ZeroHash,
+          "0x",
+        ),
+      ).to.be.revertedWith("Confidential payment needs a token");
+    });
+
+    it("Should lock encrypted funds only", async function () {
+      expect(await this.privateAuction.confidentialPayment()).to.equal(true);
+      await expect(
+        this.privateAuction.connect(this.signers.bob).lockFunds(units("100"), []),
+      ).to.be.revertedWithCustomError(this.privateAuction, "WrongPaymentMode");
+
+      await this.client.connect(this.signers.bob).lockFunds("300");
+      await this.client.connect(this.signers.carol).lockFunds("100");
+      expect(await this.privateAuction.lockedFunds(this.signers.bob)).to.equal(0);
+      expect(await lockedFundsOf.call(this, this.signers.bob)).to.equal(units("300"));
+      expect(await balanceOf.call(this, this.signers.bob)).to.equal(units("700"));
+    });
+
+    it("Should lock nothing when the allowance is insufficient", async function () {
+      const { dave } = this.signers;
+      const tokenAddress = await this.paymentToken.getAddress();
+      const auctionAddress = await this.privateAuction.getAddress();
+      const allowance = this.fhevm.createEncryptedInput(tokenAddress, dave.address).add64(units("50"));
+      const approval = await allowance.encrypt();
+      const token = this.paymentToken.connect(dave);
+      await token["approve(address,bytes32,bytes)"](auctionAddress, approval.handles[0], approval.inputProof);
+      const amount = await this.fhevm.createEncryptedInput(auctionAddress, dave.address).add64(units("100")).encrypt();
+      await this.privateAuction.connect(dave).lockEncryptedFunds(amount.handles[0], amount.inputProof, []);
+
+      expect(await lockedFundsOf.call(this, dave)).to.equal(0);
+      expect(await balanceOf.call(this, dave)).to.equal(units("1000"));
+    });
+
+    it("Should refund the encrypted funds of a cancelled bid", async function () {
+      const eve = this.client.connect(this.signers.eve);
+      await eve.lockFunds("100");
+      await eve.placeBid({ price: "1", quantity: "50" });
+      expect(await balanceOf.call(this, this.signers.eve)).to.equal(units("900"));
+
+      await eve.cancelBid();
+      expect(await balanceOf.call(this, this.signers.eve)).to.equal(units("1000"));
+      expect(await this.privateAuction.lockedParticipant(2)).to.equal(this.signers.dave.address);
+      await expect(this.privateAuction.lockedParticipant(3)).to.be.reverted;
+    });
+
+    it("Should check the bids against the encrypted locked funds", async function () {
+      // bob 60 @ 3 and carol 40 @ 2 are covered, dave's 50 @ 2 is zeroed as nothing was locked
+      await this.client.connect(this.signers.bob).placeBid({ price: "3", quantity: "60" });
+      await this.client.connect(this.signers.carol).placeBid({ price: "2", quantity: "40" });
+      await this.client.connect(this.signers.dave).placeBid({ price: "2", quantity: "50" });
+      await increaseTime(61);
+
+      await this.client.settle();
+      await awaitAllDecryptionResults();
+      const decrypted = await this.privateAuction.getAllDecryptedBids();
+      expect(decrypted.map((bid: [string, bigint, bigint]) => [bid[1], bid[2]])).to.deep.equal([
+        [units("60"), units("3")],
+        [units("40"), units("2")],
+        [0n, 0n],
+      ]);
+    });
+
+    it("Should refund the unpaid funds encrypted", async function () {
+      await this.client.distribute();
+      expect(await this.client.getPhase()).to.equal(AuctionPhase.Distributed);
+      expect(await this.privateAuction.settlementPrice()).to.equal(units("2"));
+      expect(await this.privateAuction.claimableRefund(this.signers.bob)).to.equal(0);
+
+      // bob pays 120 of 300, carol 80 of 100 and dave nothing
+      for (const [bidder, asset, balance] of [
+        [this.signers.bob, units("60"), units("880")],
+        [this.signers.carol, units("40"), units("920")],
+        [this.signers.dave, 0n, units("1000")],
+      ] as const) {
+        await expect(this.privateAuction.connect(bidder).claim()).to.changeTokenBalance(this.asset, bidder, asset);
+        expect(await balanceOf.call(this, bidder)).to.equal(balance);
+      }
+      await expect(this.privateAuction.connect(this.signers.bob).claim()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NothingToClaim",
+      );
+    });
+
+    it("Should pay the proceeds to the owner encrypted", async function () {
+      await this.client.claimProceeds();
+      expect(await balanceOf.call(this, this.signers.fred)).to.equal(units("200"));
+    });
+  });
+
+  describe("Cancellation", function () {
+    before(async function () {
+      await deployConfidentialAuction.call(this);
+      await this.client.connect(this.signers.bob).lockFunds("250");
+    });
+
+    it("Should refund all the encrypted locked funds", async function () {
+      await this.client.cancel();
+      await this.privateAuction.connect(this.signers.bob).claim();
+      expect(await balanceOf.call(this, this.signers.bob)).to.equal(units("1000"));
+      await expect(this.privateAuction.connect(this.signers.bob).claim()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "NothingToClaim",
+      );
+    });
+  });
+});
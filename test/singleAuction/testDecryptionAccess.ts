@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { awaitAllDecryptionResults, dropDecryptionRequests, initGateway } from "../asyncDecrypt";
+import { GATEWAYCONTRACT_ADDRESS } from "../constants";
+import { createInstance } from "../instance";
+import { impersonateAddress } from "../mockedSetup";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction decryption requests", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+
+    this.fixture = await deployAuctionFixture(this.signers);
+    Object.assign(this, this.fixture);
+    this.gateway = await impersonateAddress(hre, GATEWAYCONTRACT_ADDRESS, ethers.parseEther("1"));
+
+    // bob 40 @ 3, carol 40 @ 2 and dave 40 @ 1
+    for (const [bidder, price] of [
+      [this.signers.bob, "3"],
+      [this.signers.carol, "2"],
+      [this.signers.dave, "1"],
+    ] as const) {
+      await lockFunds(this.fixture, bidder, ethers.parseEther("200"));
+      await placeBid(this.fhevm, this.privateAuction, bidder, ethers.parseEther("40"), ethers.parseEther(price));
+    }
+  });
+
+  it("Should not let anyone request the decryption of arbitrary handles", async function () {
+    expect(this.privateAuction.interface.getFunction("requestDecryption")).to.equal(null);
+
+    // The former public requestDecryption(euint256 quantity, euint256 price, address bidder)
+    const bids = await this.privateAuction.getAllBids();
+    const legacy = new ethers.Interface(["function requestDecryption(uint256, uint256, address)"]);
+    await expect(
+      this.signers.eve.sendTransaction({
+        to: await this.privateAuction.getAddress(),
+        data: legacy.encodeFunctionData("requestDecryption", [bids[0][1], bids[0][2], this.signers.eve.address]),
+      }),
+    ).to.be.reverted;
+    await expect(this.privateAuction.requestIds(0)).to.be.reverted;
+  });
+
+  it("Should only accept decryption results from the Gateway", async function () {
+    const eve = this.privateAuction.connect(this.signers.eve);
+    await expect(eve.callbackDecrypted(0, ethers.parseEther("100"), 1n)).to.be.reverted;
+  });
+
+  it("Should reject results for requests it did not send", async function () {
+    await increaseTime(61);
+    await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+    this.bobRequest = await this.privateAuction.requestIds(0);
+    dropDecryptionRequests([this.bobRequest]);
+    await awaitAllDecryptionResults();
+
+    await expect(
+      this.privateAuction.connect(this.gateway).callbackDecrypted(this.bobRequest + 1000n, 1n, 1n),
+    ).to.be.revertedWithCustomError(this.privateAuction, "InvalidParams");
+    await expect(
+      this.privateAuction.connect(this.gateway).callbackDecrypted(await this.privateAuction.requestIds(1), 1n, 1n),
+    ).to.be.revertedWithCustomError(this.privateAuction, "AlreadyDecrypted");
+  });
+
+  it("Should re-request each expired bid once and reject results for the replaced request", async function () {
+    await increaseTime(2 * 3600);
+    await expect(this.privateAuction.retryDecryption([0, 0])).to.be.revertedWithCustomError(
+      this.privateAuction,
+      "DecryptionNotExpired",
+    );
+    await this.privateAuction.retryDecryption([0]);
+    expect(await this.privateAuction.requestIds(0)).to.not.equal(this.bobRequest);
+
+    await expect(
+      this.privateAuction.connect(this.gateway).callbackDecrypted(this.bobRequest, ethers.parseEther("100"), 1n),
+    ).to.be.revertedWithCustomError(this.privateAuction, "InvalidParams");
+  });
+
+  it("Should store each result in the slot of its bid whatever the fulfilment order", async function () {
+    await awaitAllDecryptionResults();
+    expect(await this.privateAuction.checkAllDecrypted()).to.equal(true);
+    expect(await this.privateAuction.decryptedCount()).to.equal(3);
+
+    // bob's bid was decrypted last but stays first
+    const decrypted = await this.privateAuction.getAllDecryptedBids();
+    expect(decrypted.map((bid: [string, bigint, bigint]) => [...bid])).to.deep.equal([
+      [this.signers.bob.address, ethers.parseEther("40"), ethers.parseEther("3")],
+      [this.signers.carol.address, ethers.parseEther("40"), ethers.parseEther("2")],
+      [this.signers.dave.address, ethers.parseEther("40"), ethers.parseEther("1")],
+    ]);
+  });
+});
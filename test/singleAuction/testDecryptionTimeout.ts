@@ -0,0 +1,163 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase, FactoryClient, TieBreaking } from "../../src/sdk";
+import { awaitAllDecryptionResults, dropDecryptionRequests, initGateway } from "../asyncDecrypt";
+import { GATEWAYCONTRACT_ADDRESS } from "../constants";
+import { createInstance } from "../instance";
+import { impersonateAddress } from "../mockedSetup";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+const DECRYPTION_TIMEOUT = 2 * 3600;
+const GRACE_PERIOD = 24 * 3600;
+
+describe("PrivateSinglePriceAuction decryption timeout", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  // bob 40 @ 3, carol 40 @ 2 and dave 40 @ 1 for 100 tokens
+  const bidAndSettle = async function (this: Mocha.Context) {
+    for (const [bidder, price] of [
+      [this.signers.bob, "3"],
+      [this.signers.carol, "2"],
+      [this.signers.dave, "1"],
+    ] as const) {
+      await lockFunds(this.fixture, bidder, ethers.parseEther("200"));
+      await placeBid(this.fhevm, this.privateAuction, bidder, ethers.parseEther("40"), ethers.parseEther(price));
+    }
+    await increaseTime(61);
+    await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+  };
+
+  describe("Re-requesting expired decryptions", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { tieBreaking: TieBreaking.Random });
+      Object.assign(this, this.fixture);
+      this.client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.eve);
+      await bidAndSettle.call(this);
+
+      // The Gateway never answers for carol's bid and the random seed
+      dropDecryptionRequests([await this.privateAuction.requestIds(1), await this.privateAuction.requestIds(3)]);
+      await awaitAllDecryptionResults();
+    });
+
+    it("Should stay Decrypting while requests are pending", async function () {
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Decrypting);
+      expect(await this.privateAuction.checkAllDecrypted()).to.equal(false);
+      expect(await this.privateAuction.getExpiredRequests()).to.deep.equal([]);
+      await expect(this.privateAuction.retryDecryption([1])).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "DecryptionNotExpired",
+      );
+    });
+
+    it("Should detect the requests that expired before being fulfilled", async function () {
+      await increaseTime(DECRYPTION_TIMEOUT);
+      expect(await this.privateAuction.getExpiredRequests()).to.deep.equal([1n, 3n]);
+      await expect(this.privateAuction.retryDecryption([0])).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "DecryptionNotExpired",
+      );
+      await expect(this.privateAuction.retryDecryption([4])).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "DecryptionNotExpired",
+      );
+    });
+
+    it("Should let anyone re-request just the expired decryptions", async function () {
+      const expired = [await this.privateAuction.requestIds(1), await this.privateAuction.requestIds(3)];
+      await this.client.retryExpiredDecryptions();
+      expect(await this.privateAuction.getExpiredRequests()).to.deep.equal([]);
+      expect(await this.privateAuction.requestIds(1)).to.not.be.oneOf(expired);
+      expect(await this.privateAuction.requestIds(3)).to.not.be.oneOf(expired);
+      expect(await this.client.retryExpiredDecryptions()).to.equal(null);
+
+      // A late answer to the replaced seed request is rejected
+      const gateway = await impersonateAddress(hre, GATEWAYCONTRACT_ADDRESS, ethers.parseEther("1"));
+      await expect(
+        this.privateAuction.connect(gateway).callbackRandomSeed(expired[1], 1n),
+      ).to.be.revertedWithCustomError(this.privateAuction, "InvalidParams");
+
+      await awaitAllDecryptionResults();
+      expect(await this.privateAuction.getPhase()).to.equal(AuctionPhase.Decrypted);
+      expect(await this.privateAuction.checkAllDecrypted()).to.equal(true);
+      expect(await this.privateAuction.randomSeed()).to.not.equal(0);
+    });
+
+    it("Should distribute with the re-requested bid", async function () {
+      await expect(this.privateAuction.abandonSettlement())
+        .to.be.revertedWithCustomError(this.privateAuction, "InvalidPhase")
+        .withArgs(AuctionPhase.Decrypting, AuctionPhase.Decrypted);
+
+      await this.client.connect(this.signers.fred).distribute();
+      expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("1"));
+      expect(await this.privateAuction.claimableAsset(this.signers.carol)).to.equal(ethers.parseEther("40"));
+      expect(await this.privateAuction.claimableAsset(this.signers.dave)).to.equal(ethers.parseEther("20"));
+    });
+  });
+
+  describe("Abandoning the settlement", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { withEther: true });
+      Object.assign(this, this.fixture);
+      await bidAndSettle.call(this);
+
+      dropDecryptionRequests([await this.privateAuction.requestIds(2)]);
+      await awaitAllDecryptionResults();
+    });
+
+    it("Should not be possible before the grace period is over", async function () {
+      expect(await this.privateAuction.decryptionGracePeriod()).to.equal(GRACE_PERIOD);
+      await increaseTime(DECRYPTION_TIMEOUT);
+      await expect(this.privateAuction.abandonSettlement()).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "GracePeriodNotOver",
+      );
+    });
+
+    it("Should cancel the auction and refund everyone once the grace period is over", async function () {
+      await increaseTime(GRACE_PERIOD);
+      const tx = this.privateAuction.connect(this.signers.eve).abandonSettlement();
+      await expect(tx).to.changeTokenBalance(this.asset, this.signers.fred, ethers.parseEther("100"));
+      await expect(tx)
+        .to.emit(this.privateAuction, "PhaseChanged")
+        .withArgs(AuctionPhase.Decrypting, AuctionPhase.Cancelled);
+
+      for (const bidder of [this.signers.bob, this.signers.carol, this.signers.dave]) {
+        await expect(this.privateAuction.connect(bidder).claim()).to.changeEtherBalance(
+          bidder,
+          ethers.parseEther("200"),
+        );
+      }
+    });
+  });
+
+  describe("Configuring the grace period", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers);
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should let only the guardian set the grace period of new auctions", async function () {
+      await expect(this.auctionFactory.connect(this.signers.fred).setDecryptionGracePeriod(3600)).to.be.revertedWith(
+        "Caller is not the guardian",
+      );
+      const factory = new FactoryClient(await this.auctionFactory.getAddress(), this.signers.alice);
+      await factory.setDecryptionGracePeriod(3600);
+
+      const auction = await factory.createAuction({
+        asset: await this.asset.getAddress(),
+        quantity: "10",
+        duration: 60,
+        maxParticipant: 10,
+      });
+      expect(await auction.contract.decryptionGracePeriod()).to.equal(3600);
+      expect(await this.privateAuction.decryptionGracePeriod()).to.equal(GRACE_PERIOD);
+    });
+  });
+});
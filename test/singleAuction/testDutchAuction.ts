@@ -0,0 +1,285 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionPhase, DutchAuctionClient, FactoryClient, connectAuction } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFactory, increaseTime } from "./fixtures";
+
+describe("PrivateDutchAuction", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  // Deploys the tokens and the factory, then creates a Dutch auction of 100 tokens owned by fred whose clock starts at 5
+  // and drops by 1 every minute down to 1
+  const deployDutchAuction = async function (this: Mocha.Context, withEther = false) {
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const { alice, fred } = this.signers;
+    this.asset = await MockERC20.connect(alice).deploy("Asset Token", "AST", ethers.parseEther("1000000"));
+    this.paymentToken = undefined;
+    if (!withEther) {
+      this.paymentToken = await MockERC20.connect(alice).deploy("Payment Token", "PAY", ethers.parseEther("1000000"));
+      for (const bidder of [this.signers.bob, this.signers.carol, this.signers.dave, this.signers.eve]) {
+        await this.paymentToken.connect(alice).transfer(bidder.address, ethers.parseEther("10000"));
+      }
+    }
+    this.auctionFactory = await deployAuctionFactory(alice);
+    await this.asset.connect(alice).transfer(fred.address, ethers.parseEther("100"));
+
+    this.factory = new FactoryClient(await this.auctionFactory.getAddress(), fred, this.fhevm);
+    this.client = await this.factory.createDutchAuction({
+      asset: await this.asset.getAddress(),
+      paymentToken: this.paymentToken ? await this.paymentToken.getAddress() : undefined,
+      quantity: "100",
+      duration: 60,
+      maxParticipant: 10,
+      startPrice: "5",
+      priceStep: "1",
+      stepDuration: 60,
+      floorPrice: "1",
+    });
+    this.dutchAuction = this.client.contract;
+  };
+
+  // Locks the funds of each bidder and places its limit order
+  const placeBids = async function (this: Mocha.Context, bids: (readonly [string, string, string, string])[]) {
+    for (const [name, quantity, price, lock] of bids) {
+      const bidder: DutchAuctionClient = this.client.connect(this.signers[name]);
+      await bidder.lockFunds(lock);
+      await bidder.placeBid({ price, quantity });
+    }
+  };
+
+  // Checks the demand at the current clock price and lets the Gateway answer
+  const checkDemand = async function (this: Mocha.Context) {
+    await this.client.checkDemand();
+    await awaitAllDecryptionResults();
+  };
+
+  for (const withEther of [true, false]) {
+    describe(withEther ? "Paid in Ether" : "Paid in ERC20", function () {
+      before(async function () {
+        await deployDutchAuction.call(this, withEther);
+        // bob 60 up to 4.5, carol 50 up to 3, dave 30 up to 3.2, eve 20 up to 1.5 without the funds to cover it
+        await placeBids.call(this, [
+          ["bob", "60", "4.5", "300"],
+          ["carol", "50", "3", "150"],
+          ["dave", "30", "3.2", "100"],
+          ["eve", "20", "1.5", "20"],
+        ]);
+      });
+
+      it("Should accept one limit order per bidder covered by its locked funds", async function () {
+        expect(await this.client.connect(this.signers.bob).isBidAccepted()).to.equal(true);
+        expect(await this.client.connect(this.signers.eve).isBidAccepted()).to.equal(false);
+        await expect(
+          this.client.connect(this.signers.bob).placeBid({ price: "5", quantity: "10" }),
+        ).to.be.revertedWithCustomError(this.dutchAuction, "AlreadyBid");
+        expect((await this.dutchAuction.getAllBids()).length).to.equal(4);
+      });
+
+      it("Should hold the clock price during the bidding then lower it on schedule", async function () {
+        const [creation] = await this.auctionFactory.queryFilter(this.auctionFactory.filters.AuctionCreated());
+        expect(creation.args.endTime).to.equal(await this.dutchAuction.endTime());
+        expect(await this.client.getClockPrice()).to.equal(ethers.parseEther("5"));
+        await expect(this.client.checkDemand()).to.be.revertedWithCustomError(this.dutchAuction, "InvalidPhase");
+        await increaseTime(61);
+        expect(await this.client.getPhase()).to.equal(AuctionPhase.Closed);
+        expect(await this.client.getClockPrice()).to.equal(ethers.parseEther("5"));
+      });
+
+      it("Should keep the clock running while the demand does not cover the quantity", async function () {
+        await checkDemand.call(this);
+        expect(await this.dutchAuction.lastUncoveredPrice()).to.equal(ethers.parseEther("5"));
+        await expect(this.client.checkDemand()).to.be.revertedWithCustomError(this.dutchAuction, "ClockNotLowered");
+
+        // Only bob bids at 4
+        await increaseTime(60);
+        expect(await this.client.getClockPrice()).to.equal(ethers.parseEther("4"));
+        await this.client.checkDemand();
+        await expect(this.client.checkDemand()).to.be.revertedWithCustomError(this.dutchAuction, "CheckPending");
+        await expect(this.dutchAuction.connect(this.signers.fred).settleAuction(0, 4)).to.be.revertedWithCustomError(
+          this.dutchAuction,
+          "CheckPending",
+        );
+        await awaitAllDecryptionResults();
+        expect(await this.dutchAuction.lastUncoveredPrice()).to.equal(ethers.parseEther("4"));
+        expect(await this.dutchAuction.cleared()).to.equal(false);
+      });
+
+      it("Should stop the clock at the first price whose demand covers the quantity", async function () {
+        await increaseTime(60);
+        await checkDemand.call(this);
+        expect(await this.dutchAuction.cleared()).to.equal(true);
+        expect(await this.dutchAuction.settlementPrice()).to.equal(ethers.parseEther("3"));
+        expect(await this.dutchAuction.fillPrice()).to.equal(ethers.parseEther("4"));
+      });
+
+      it("Should fill the bids above the last uncovered price and share the rest first-come", async function () {
+        await this.client.settle(2);
+        await awaitAllDecryptionResults();
+        expect(await this.client.getPhase()).to.equal(AuctionPhase.Decrypted);
+        // bob is filled at 4, carol bid before dave and takes the 40 tokens left
+        expect([...(await this.dutchAuction.getAllocations())]).to.deep.equal([
+          ethers.parseEther("60"),
+          ethers.parseEther("40"),
+          0n,
+          0n,
+        ]);
+
+        await this.client.distribute();
+        expect(await this.client.getPhase()).to.equal(AuctionPhase.Distributed);
+        expect(await this.client.getClaimable(this.signers.bob.address)).to.deep.equal({
+          asset: ethers.parseEther("60"),
+          refund: ethers.parseEther("120"),
+        });
+        expect(await this.client.getClaimable(this.signers.carol.address)).to.deep.equal({
+          asset: ethers.parseEther("40"),
+          refund: ethers.parseEther("30"),
+        });
+        expect(await this.dutchAuction.claimableProceeds()).to.equal(ethers.parseEther("300"));
+        expect(await this.dutchAuction.unsoldAssets()).to.equal(0);
+      });
+
+      it("Should pay the assets, the refunds and the proceeds", async function () {
+        const bob = this.dutchAuction.connect(this.signers.bob);
+        const dave = this.dutchAuction.connect(this.signers.dave);
+        const owner = this.dutchAuction.connect(this.signers.fred);
+        await expect(bob.claim()).to.changeTokenBalance(this.asset, this.signers.bob, ethers.parseEther("60"));
+        if (withEther) {
+          await expect(dave.claim()).to.changeEtherBalance(this.signers.dave, ethers.parseEther("100"));
+          await expect(owner.claimProceeds()).to.changeEtherBalance(this.signers.fred, ethers.parseEther("300"));
+        } else {
+          await expect(dave.claim()).to.changeTokenBalance(
+            this.paymentToken,
+            this.signers.dave,
+            ethers.parseEther("100"),
+          );
+          await expect(owner.claimProceeds()).to.changeTokenBalance(
+            this.paymentToken,
+            this.signers.fred,
+            ethers.parseEther("300"),
+          );
+        }
+        await expect(bob.claim()).to.be.revertedWithCustomError(this.dutchAuction, "NothingToClaim");
+      });
+    });
+  }
+
+  describe("Late checks", function () {
+    before(async function () {
+      await deployDutchAuction.call(this);
+      // carol bids first, 50 up to 2, then bob 60 up to 4.5 and dave 50 up to 3
+      await placeBids.call(this, [
+        ["carol", "50", "2", "100"],
+        ["bob", "60", "4.5", "270"],
+        ["dave", "50", "3", "150"],
+      ]);
+      await increaseTime(61);
+    });
+
+    it("Should check every step of the schedule when the checks fall behind the clock", async function () {
+      await checkDemand.call(this);
+      // Three steps pass before the next check, the clock is at 2 but 4 and 3 are checked first
+      await increaseTime(180);
+      expect(await this.client.getClockPrice()).to.equal(ethers.parseEther("2"));
+      expect(await this.client.getNextCheckPrice()).to.equal(ethers.parseEther("4"));
+      await checkDemand.call(this);
+      expect(await this.dutchAuction.lastUncoveredPrice()).to.equal(ethers.parseEther("4"));
+      await checkDemand.call(this);
+      expect(await this.dutchAuction.settlementPrice()).to.equal(ethers.parseEther("3"));
+      expect(await this.dutchAuction.fillPrice()).to.equal(ethers.parseEther("4"));
+    });
+
+    it("Should fill the highest bids before the earlier lower ones", async function () {
+      await this.client.settle();
+      await awaitAllDecryptionResults();
+      // bob is filled above the last uncovered price, dave takes the rest and carol bid below the clearing price
+      expect([...(await this.dutchAuction.getAllocations())]).to.deep.equal([
+        0n,
+        ethers.parseEther("60"),
+        ethers.parseEther("40"),
+      ]);
+    });
+  });
+
+  describe("Undersubscription", function () {
+    before(async function () {
+      await deployDutchAuction.call(this);
+      await placeBids.call(this, [
+        ["bob", "30", "2", "60"],
+        ["carol", "20", "1", "20"],
+      ]);
+      await increaseTime(61);
+    });
+
+    it("Should stop the clock at the floor price and fill every bid above it", async function () {
+      // The demand is checked at 5, 4, 3, 2 and 1
+      while (!(await this.dutchAuction.cleared())) {
+        await checkDemand.call(this);
+        await increaseTime(60);
+      }
+      expect(await this.dutchAuction.lastUncoveredPrice()).to.equal(ethers.parseEther("1"));
+      expect(await this.dutchAuction.settlementPrice()).to.equal(ethers.parseEther("1"));
+
+      await this.client.settle();
+      await awaitAllDecryptionResults();
+      await this.client.distribute();
+      expect(await this.dutchAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("30"));
+      expect(await this.dutchAuction.claimableAsset(this.signers.carol)).to.equal(ethers.parseEther("20"));
+      expect(await this.dutchAuction.claimableProceeds()).to.equal(ethers.parseEther("50"));
+      expect(await this.dutchAuction.unsoldAssets()).to.equal(ethers.parseEther("50"));
+    });
+  });
+
+  describe("Factory", function () {
+    before(async function () {
+      await deployDutchAuction.call(this);
+    });
+
+    it("Should list the Dutch auction and tell it apart from the single-price auctions", async function () {
+      expect(await this.factory.getAllAuctions()).to.deep.equal([this.client.address]);
+      expect(await connectAuction(this.client.address, this.signers.fred)).to.be.instanceOf(DutchAuctionClient);
+    });
+
+    it("Should reject a clock that cannot go down", async function () {
+      await this.asset.connect(this.signers.alice).transfer(this.signers.fred.address, ethers.parseEther("100"));
+      const params = {
+        asset: await this.asset.getAddress(),
+        quantity: "100",
+        duration: 60,
+        maxParticipant: 10,
+        startPrice: "5",
+        priceStep: "1",
+        stepDuration: 60,
+        floorPrice: "1",
+      };
+      await expect(this.factory.createDutchAuction({ ...params, floorPrice: "0" })).to.be.revertedWith(
+        "Clock must start above a positive floor price",
+      );
+      await expect(this.factory.createDutchAuction({ ...params, startPrice: "1" })).to.be.revertedWith(
+        "Clock must start above a positive floor price",
+      );
+      await expect(this.factory.createDutchAuction({ ...params, stepDuration: 0 })).to.be.revertedWith(
+        "Clock needs a price step and a step duration",
+      );
+    });
+
+    it("Should let the guardian cancel it and the bidders claim their funds", async function () {
+      await placeBids.call(this, [["bob", "30", "2", "60"]]);
+      await this.auctionFactory.connect(this.signers.alice).cancelAuction(this.client.address);
+      expect(await this.client.getPhase()).to.equal(AuctionPhase.Cancelled);
+      expect(await this.asset.balanceOf(this.signers.fred)).to.equal(ethers.parseEther("200"));
+      await expect(this.dutchAuction.connect(this.signers.bob).claim()).to.changeTokenBalance(
+        this.paymentToken,
+        this.signers.bob,
+        ethers.parseEther("60"),
+      );
+    });
+  });
+});
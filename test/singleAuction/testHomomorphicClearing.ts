@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import { ContractTransactionReceipt } from "ethers";
+import { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase, TieBreaking } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { awaitCoprocessor, getFHEGasFromTxReceipt } from "../coprocessorUtils";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, distributeFunds, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+const FHE_GAS_BLOCK_LIMIT = 10_000_000;
+
+describe("PrivateSinglePriceAuction homomorphic clearing", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  // bob 60 @ 3, carol 50 @ 2, dave 30 @ 2 and eve 20 @ 1 for 100 tokens
+  const placeBids = async function (this: Mocha.Context) {
+    for (const [bidder, quantity, price] of [
+      [this.signers.bob, "60", "3"],
+      [this.signers.carol, "50", "2"],
+      [this.signers.dave, "30", "2"],
+      [this.signers.eve, "20", "1"],
+    ] as const) {
+      await lockFunds(this.fixture, bidder, ethers.parseEther("200"));
+      await placeBid(this.fhevm, this.privateAuction, bidder, ethers.parseEther(quantity), ethers.parseEther(price));
+    }
+    await increaseTime(61);
+  };
+
+  describe("Settlement", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { homomorphicClearing: true });
+      Object.assign(this, this.fixture);
+      this.client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.fred, this.fhevm);
+      await placeBids.call(this);
+    });
+
+    it("Should require every pair of bids to be compared before settling", async function () {
+      const owner = this.privateAuction.connect(this.signers.fred);
+      await owner.compareBids(5);
+      expect(await this.privateAuction.comparedPairs()).to.equal(5);
+      await expect(owner.settleAuction(0, 4)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "ComparisonIncomplete",
+      );
+      await expect(owner.compareBids(0)).to.be.revertedWithCustomError(this.privateAuction, "InvalidBatch");
+    });
+
+    it("Should decrypt only the clearing price and the allocations", async function () {
+      await this.client.settle(4);
+      expect(await this.privateAuction.comparedPairs()).to.equal(16);
+      await awaitAllDecryptionResults();
+      expect(await this.client.getPhase()).to.equal(AuctionPhase.Decrypted);
+
+      // bob is filled, carol takes the 40 left at the clearing price before dave, eve is below it
+      const decrypted = await this.privateAuction.getAllDecryptedBids();
+      expect(decrypted.map((bid: [string, bigint, bigint]) => [bid[1], bid[2]])).to.deep.equal([
+        [ethers.parseEther("60"), ethers.parseEther("2")],
+        [ethers.parseEther("40"), ethers.parseEther("2")],
+        [0n, 0n],
+        [0n, 0n],
+      ]);
+    });
+
+    it("Should distribute the decrypted allocations", async function () {
+      await this.client.distribute();
+      expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("2"));
+      expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("60"));
+      expect(await this.privateAuction.claimableAsset(this.signers.carol)).to.equal(ethers.parseEther("40"));
+      expect(await this.privateAuction.claimableRefund(this.signers.carol)).to.equal(ethers.parseEther("120"));
+      expect(await this.privateAuction.claimableRefund(this.signers.eve)).to.equal(ethers.parseEther("200"));
+      expect(await this.privateAuction.unsoldAssets()).to.equal(0);
+    });
+  });
+
+  describe("Reserve price", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, {
+        homomorphicClearing: true,
+        reserve: { fhevm: this.fhevm, price: ethers.parseEther("2.5") },
+      });
+      Object.assign(this, this.fixture);
+      await placeBids.call(this);
+    });
+
+    it("Should clear above the reserve and return the unsold quantity", async function () {
+      await new AuctionClient(await this.privateAuction.getAddress(), this.signers.fred, this.fhevm).settle(4);
+      await awaitAllDecryptionResults();
+      await distributeFunds(this.privateAuction, this.signers.fred);
+
+      expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("3"));
+      expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("60"));
+      expect(await this.privateAuction.claimableAsset(this.signers.carol)).to.equal(0);
+      expect(await this.privateAuction.unsoldAssets()).to.equal(ethers.parseEther("40"));
+    });
+  });
+
+  describe("Modes", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers);
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should compare bids with homomorphic clearing only", async function () {
+      await increaseTime(61);
+      await expect(this.privateAuction.connect(this.signers.fred).compareBids(1)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "InvalidBatch",
+      );
+    });
+
+    it("Should fill the ties first-come only", async function () {
+      const create = (tieBreaking: TieBreaking) =>
+        this.auctionFactory.connect(this.signers.fred).createAuction(
+          {
+            asset: this.asset.getAddress(),
+            paymentToken: ethers.ZeroAddress,
+            confidentialPayment: false,
+            confidentialAsset: false,
+            homomorphicClearing: true,
+            quantity: ethers.parseEther("1"),
+            startTime: 0,
+            duration: 60,
+            maxParticipant: 50,
+            tieBreaking,
+            extensionWindow: 0,
+            extensionDuration: 0,
+            maxExtension: 0,
+            allowlistRoot: ethers.ZeroHash,
+            pricing: 0,
+          },
+          ethers.ZeroHash,
+          "0x",
+        );
+      for (const tieBreaking of [TieBreaking.ProRata, TieBreaking.Random]) {
+        await expect(create(tieBreaking)).to.be.revertedWith("Homomorphic clearing needs first-come ties");
+      }
+    });
+  });
+
+  describe("Gas comparison", function () {
+    const BIDDERS = 8;
+    const COMPARE_BATCH = 8;
+    const SETTLE_BATCH = 6;
+
+    // Runs the same bids in both modes, then compares the outcome and the gas of each step
+    it(`Should match the decrypted settlement of ${BIDDERS} bids within the FHE gas block limit`, async function () {
+      this.timeout(1_800_000);
+      const report = [];
+      const outcomes = [];
+      for (const homomorphicClearing of [false, true]) {
+        const fixture = await deployAuctionFixture(this.signers, {
+          withEther: true,
+          duration: 3600,
+          homomorphicClearing,
+        });
+        const client = new AuctionClient(await fixture.privateAuction.getAddress(), this.signers.fred, this.fhevm);
+        const wallets = [];
+        for (let i = 0; i < BIDDERS; i++) {
+          const wallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)), ethers.provider);
+          await ethers.provider.send("hardhat_setBalance", [wallet.address, ethers.toBeHex(ethers.parseEther("200"))]);
+          const bidder = client.connect(wallet);
+          await bidder.lockFunds("120");
+          await bidder.placeBid({ price: String(1 + (i % 4)), quantity: String(10 + ((i * 7) % 20)) });
+          wallets.push(wallet);
+        }
+        await increaseTime(3601);
+
+        // The mock coprocessor gives up on long chains of handles, it is run after each batch of comparisons
+        const steps: Record<string, ContractTransactionReceipt[]> = {};
+        if (homomorphicClearing) {
+          steps.compare = [];
+          while ((await fixture.privateAuction.comparedPairs()) < BIDDERS ** 2) {
+            const tx = await fixture.privateAuction.connect(this.signers.fred).compareBids(COMPARE_BATCH);
+            steps.compare.push((await tx.wait()) as ContractTransactionReceipt);
+            await awaitCoprocessor();
+          }
+        }
+        steps.settle = await client.settle(SETTLE_BATCH, COMPARE_BATCH);
+        await awaitAllDecryptionResults();
+        steps.distribute = await client.distribute();
+        expect(await client.getPhase()).to.equal(AuctionPhase.Distributed);
+
+        for (const [step, receipts] of Object.entries(steps)) {
+          const gas = receipts.map((receipt) => receipt.gasUsed);
+          const fheGas = receipts.map((receipt) => getFHEGasFromTxReceipt(receipt));
+          expect(Math.max(...fheGas)).to.be.at.most(FHE_GAS_BLOCK_LIMIT);
+          report.push({
+            mode: homomorphicClearing ? "homomorphic" : "decrypted",
+            step,
+            transactions: receipts.length,
+            totalGas: gas.reduce((a, b) => a + b, 0n),
+            totalFHEGas: fheGas.reduce((a, b) => a + b, 0),
+            maxFHEGas: Math.max(...fheGas),
+          });
+        }
+        outcomes.push([
+          await fixture.privateAuction.settlementPrice(),
+          ...(await Promise.all(wallets.map((wallet) => fixture.privateAuction.claimableAsset(wallet.address)))),
+        ]);
+      }
+      console.table(report);
+
+      expect(outcomes[1]).to.deep.equal(outcomes[0]);
+    });
+  });
+});
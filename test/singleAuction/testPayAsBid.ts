@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, Pricing } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, distributeFunds, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction pay-as-bid", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  it("Should need decrypted bids", async function () {
+    // Homomorphic clearing decrypts the clearing price of each winner, which would silently charge the uniform price
+    await expect(
+      deployAuctionFixture(this.signers, { pricing: Pricing.PayAsBid, homomorphicClearing: true }),
+    ).to.be.revertedWith("Pay-as-bid needs decrypted bids");
+  });
+
+  for (const withEther of [true, false]) {
+    describe(withEther ? "Paid in Ether" : "Paid in ERC20", function () {
+      before(async function () {
+        this.fixture = await deployAuctionFixture(this.signers, { withEther, pricing: Pricing.PayAsBid });
+        Object.assign(this, this.fixture);
+
+        // bob 60 @ 3, carol 50 @ 2, dave 30 @ 2 and eve 20 @ 1 for 100 tokens, clearing at 2
+        for (const [bidder, quantity, price] of [
+          [this.signers.bob, "60", "3"],
+          [this.signers.carol, "50", "2"],
+          [this.signers.dave, "30", "2"],
+          [this.signers.eve, "20", "1"],
+        ] as const) {
+          await lockFunds(this.fixture, bidder, ethers.parseEther("200"));
+          await placeBid(
+            this.fhevm,
+            this.privateAuction,
+            bidder,
+            ethers.parseEther(quantity),
+            ethers.parseEther(price),
+          );
+        }
+        await increaseTime(61);
+      });
+
+      it("Should store the pricing mode", async function () {
+        const client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.fred);
+        expect(await this.privateAuction.pricing()).to.equal(Pricing.PayAsBid);
+        expect((await client.getStatus()).pricing).to.equal(Pricing.PayAsBid);
+      });
+
+      it("Should charge each winner its own price and refund the rest of its locked funds", async function () {
+        await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+        await awaitAllDecryptionResults();
+        await distributeFunds(this.privateAuction, this.signers.fred);
+
+        // bob pays 60 * 3 rather than 60 * 2, carol 40 * 2 for the quantity left
+        expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("2"));
+        expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("60"));
+        expect(await this.privateAuction.claimableRefund(this.signers.bob)).to.equal(ethers.parseEther("20"));
+        expect(await this.privateAuction.claimableAsset(this.signers.carol)).to.equal(ethers.parseEther("40"));
+        expect(await this.privateAuction.claimableRefund(this.signers.carol)).to.equal(ethers.parseEther("120"));
+        expect(await this.privateAuction.claimableRefund(this.signers.dave)).to.equal(ethers.parseEther("200"));
+        expect(await this.privateAuction.claimableRefund(this.signers.eve)).to.equal(ethers.parseEther("200"));
+        expect(await this.privateAuction.claimableProceeds()).to.equal(ethers.parseEther("260"));
+
+        const winners = await this.privateAuction.getFinalWinners();
+        expect(winners.map((winner: [string, bigint, bigint]) => winner[2])).to.deep.equal([
+          ethers.parseEther("3"),
+          ethers.parseEther("2"),
+        ]);
+      });
+
+      it("Should pay the refunds and the proceeds", async function () {
+        const bob = this.privateAuction.connect(this.signers.bob);
+        const owner = this.privateAuction.connect(this.signers.fred);
+        if (withEther) {
+          await expect(bob.claim()).to.changeEtherBalance(this.signers.bob, ethers.parseEther("20"));
+          await expect(owner.claimProceeds()).to.changeEtherBalance(this.signers.fred, ethers.parseEther("260"));
+        } else {
+          await expect(bob.claim()).to.changeTokenBalance(this.paymentToken, this.signers.bob, ethers.parseEther("20"));
+          await expect(owner.claimProceeds()).to.changeTokenBalance(
+            this.paymentToken,
+            this.signers.fred,
+            ethers.parseEther("260"),
+          );
+        }
+      });
+    });
+  }
+});
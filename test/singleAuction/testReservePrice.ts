@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { reencryptEuint256 } from "../reencrypt";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, distributeFunds, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction reserve price", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  // bob 40 @ 3, carol 40 @ 2 and dave 40 @ 1 for 100 tokens
+  const bidAndSettle = async function (this: Mocha.Context) {
+    for (const [bidder, price] of [
+      [this.signers.bob, "3"],
+      [this.signers.carol, "2"],
+      [this.signers.dave, "1"],
+    ] as const) {
+      await lockFunds(this.fixture, bidder, ethers.parseEther("200"));
+      await placeBid(this.fhevm, this.privateAuction, bidder, ethers.parseEther("40"), ethers.parseEther(price));
+    }
+    await increaseTime(61);
+    await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+    await awaitAllDecryptionResults();
+    await distributeFunds(this.privateAuction, this.signers.fred);
+  };
+
+  describe("Clearing above the reserve", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, {
+        reserve: { fhevm: this.fhevm, price: ethers.parseEther("0.5") },
+      });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should let only the owner reencrypt the reserve price", async function () {
+      const address = await this.privateAuction.getAddress();
+      const handle = await this.privateAuction.reservePrice();
+      expect(await reencryptEuint256(this.signers.fred, this.fhevm, handle, address)).to.equal(
+        ethers.parseEther("0.5"),
+      );
+      try {
+        await reencryptEuint256(this.signers.bob, this.fhevm, handle, address);
+        expect.fail("bob should not be able to reencrypt the reserve price");
+      } catch (error) {
+        expect(String(error)).to.contain("not authorized");
+      }
+    });
+
+    it("Should not let anyone but the factory set the reserve price", async function () {
+      await expect(
+        this.privateAuction.connect(this.signers.fred).setReservePrice(await this.privateAuction.reservePrice()),
+      ).to.be.revertedWithCustomError(this.privateAuction, "NotFactory");
+    });
+
+    it("Should clear at the lowest winning bid when every bid meets the reserve", async function () {
+      await bidAndSettle.call(this);
+
+      expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("1"));
+      expect(await this.privateAuction.claimableAsset(this.signers.dave)).to.equal(ethers.parseEther("20"));
+      expect(await this.privateAuction.unsoldAssets()).to.equal(0);
+    });
+  });
+
+  describe("Clearing at the reserve", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, {
+        reserve: { fhevm: this.fhevm, price: ethers.parseEther("2") },
+      });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should exclude the bids below the reserve and return the unsold quantity", async function () {
+      await bidAndSettle.call(this);
+
+      expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("2"));
+      expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("40"));
+      expect(await this.privateAuction.claimableAsset(this.signers.carol)).to.equal(ethers.parseEther("40"));
+      expect(await this.privateAuction.claimableAsset(this.signers.dave)).to.equal(0);
+      expect(await this.privateAuction.claimableRefund(this.signers.dave)).to.equal(ethers.parseEther("200"));
+      expect(await this.privateAuction.unsoldAssets()).to.equal(ethers.parseEther("20"));
+
+      await expect(this.privateAuction.connect(this.signers.fred).claimProceeds()).to.changeTokenBalances(
+        this.asset,
+        [this.privateAuction, this.signers.fred],
+        [-ethers.parseEther("20"), ethers.parseEther("20")],
+      );
+    });
+  });
+
+  describe("Clearing below the reserve", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, {
+        reserve: { fhevm: this.fhevm, price: ethers.parseEther("5") },
+      });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should not sell anything and refund every bidder", async function () {
+      await bidAndSettle.call(this);
+
+      expect(await this.privateAuction.getFinalWinners()).to.satisfy((winners: [string][]) =>
+        winners.every((winner) => winner[0] === ethers.ZeroAddress),
+      );
+      expect(await this.privateAuction.claimableProceeds()).to.equal(0);
+      expect(await this.privateAuction.unsoldAssets()).to.equal(ethers.parseEther("100"));
+      for (const bidder of [this.signers.bob, this.signers.carol, this.signers.dave]) {
+        expect(await this.privateAuction.claimableAsset(bidder)).to.equal(0);
+        await expect(this.privateAuction.connect(bidder).claim()).to.changeTokenBalance(
+          this.paymentToken,
+          bidder,
+          ethers.parseEther("200"),
+        );
+      }
+
+      await expect(this.privateAuction.connect(this.signers.fred).claimProceeds()).to.changeTokenBalance(
+        this.asset,
+        this.signers.fred,
+        ethers.parseEther("100"),
+      );
+    });
+  });
+});
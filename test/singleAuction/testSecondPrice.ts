@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase, Pricing } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { AuctionFixtureOptions, deployAuctionFixture, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction second price", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  // Deploys a second-price auction of a lot of 100 tokens, places the bids, then closes it
+  const deployWithBids = async function (
+    this: Mocha.Context,
+    bids: (readonly [string, string, string])[],
+    options: AuctionFixtureOptions = {},
+  ) {
+    this.fixture = await deployAuctionFixture(this.signers, {
+      homomorphicClearing: true,
+      pricing: Pricing.SecondPrice,
+      ...options,
+    });
+    Object.assign(this, this.fixture);
+    this.client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.fred, this.fhevm);
+    for (const [name, quantity, price] of bids) {
+      await lockFunds(this.fixture, this.signers[name], ethers.parseEther("600"));
+      await placeBid(
+        this.fhevm,
+        this.privateAuction,
+        this.signers[name],
+        ethers.parseEther(quantity),
+        ethers.parseEther(price),
+      );
+    }
+    await increaseTime(61);
+  };
+
+  // Settles and distributes the auction, returns the decrypted quantity and price of each bid
+  const settle = async function (this: Mocha.Context) {
+    await this.client.settle(4);
+    await awaitAllDecryptionResults();
+    await this.client.distribute();
+    expect(await this.client.getPhase()).to.equal(AuctionPhase.Distributed);
+    const decrypted = await this.privateAuction.getAllDecryptedBids();
+    return decrypted.map((bid: [string, bigint, bigint]) => [bid[1], bid[2]]);
+  };
+
+  describe("Settlement", function () {
+    before(async function () {
+      // dave offers the most but for half of the lot only
+      await deployWithBids.call(this, [
+        ["bob", "100", "3"],
+        ["carol", "100", "2.5"],
+        ["dave", "50", "5"],
+        ["eve", "100", "2"],
+      ]);
+    });
+
+    it("Should rank every bid before settling", async function () {
+      const owner = this.privateAuction.connect(this.signers.fred);
+      await owner.compareBids(3);
+      expect(await this.privateAuction.comparedPairs()).to.equal(3);
+      await expect(owner.settleAuction(0, 4)).to.be.revertedWithCustomError(
+        this.privateAuction,
+        "ComparisonIncomplete",
+      );
+    });
+
+    it("Should decrypt only the winner and the second highest price", async function () {
+      const decrypted = await settle.call(this);
+      expect(await this.privateAuction.comparedPairs()).to.equal(4);
+      expect(decrypted).to.deep.equal([
+        [ethers.parseEther("100"), ethers.parseEther("2.5")],
+        [0n, 0n],
+        [0n, 0n],
+        [0n, 0n],
+      ]);
+    });
+
+    it("Should sell the whole lot to the highest bidder at the second highest price", async function () {
+      expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("2.5"));
+      expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("100"));
+      expect(await this.privateAuction.claimableRefund(this.signers.bob)).to.equal(ethers.parseEther("350"));
+      expect(await this.privateAuction.claimableRefund(this.signers.carol)).to.equal(ethers.parseEther("600"));
+      expect(await this.privateAuction.claimableRefund(this.signers.dave)).to.equal(ethers.parseEther("600"));
+      expect(await this.privateAuction.claimableProceeds()).to.equal(ethers.parseEther("250"));
+      expect(await this.privateAuction.unsoldAssets()).to.equal(0);
+    });
+  });
+
+  describe("Ties and reserve price", function () {
+    it("Should sell to the earliest of the tied highest bids at their price", async function () {
+      await deployWithBids.call(this, [
+        ["bob", "100", "2"],
+        ["carol", "100", "3"],
+        ["dave", "100", "3"],
+      ]);
+      expect(await settle.call(this)).to.deep.equal([
+        [0n, 0n],
+        [ethers.parseEther("100"), ethers.parseEther("3")],
+        [0n, 0n],
+      ]);
+    });
+
+    it("Should charge the reserve price when the second highest bid is below it", async function () {
+      await deployWithBids.call(
+        this,
+        [
+          ["bob", "100", "3"],
+          ["carol", "100", "2.5"],
+        ],
+        {
+          reserve: { fhevm: this.fhevm, price: ethers.parseEther("2.8") },
+        },
+      );
+      await settle.call(this);
+      expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("2.8"));
+      expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("100"));
+      expect(await this.privateAuction.claimableProceeds()).to.equal(ethers.parseEther("280"));
+    });
+
+    it("Should return the lot when no bid is for the whole of it", async function () {
+      await deployWithBids.call(this, [
+        ["bob", "60", "3"],
+        ["carol", "40", "3"],
+      ]);
+      expect(await settle.call(this)).to.deep.equal([
+        [0n, 0n],
+        [0n, 0n],
+      ]);
+      expect(await this.privateAuction.unsoldAssets()).to.equal(ethers.parseEther("100"));
+      expect(await this.privateAuction.claimableRefund(this.signers.bob)).to.equal(ethers.parseEther("600"));
+    });
+  });
+
+  describe("Modes", function () {
+    it("Should require homomorphic clearing", async function () {
+      await expect(deployAuctionFixture(this.signers, { pricing: Pricing.SecondPrice })).to.be.revertedWith(
+        "Second price needs homomorphic clearing",
+      );
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import { ContractTransactionReceipt } from "ethers";
+import { ethers } from "hardhat";
+
+import { AuctionClient, AuctionPhase } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { getFHEGasFromTxReceipt } from "../coprocessorUtils";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, increaseTime } from "./fixtures";
+
+// The 500 bids benchmark takes several GB of memory and minutes, it only runs with GAS_BENCHMARK=1
+const BENCHMARK = Boolean(process.env.GAS_BENCHMARK);
+const BIDDERS = BENCHMARK ? 500 : 40;
+const FHE_GAS_BLOCK_LIMIT = 10_000_000;
+// Each bid checked against the reserve price costs about 0.42M FHE gas, 20 bids fit the 10M FHE gas block limit
+const SETTLE_BATCH = 20;
+const DISTRIBUTE_BATCH = 50;
+
+describe("PrivateSinglePriceAuction settlement gas", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+
+    this.fixture = await deployAuctionFixture(this.signers, {
+      withEther: true,
+      duration: 3600,
+      maxParticipant: BIDDERS,
+      reserve: { fhevm: this.fhevm, price: ethers.parseEther("0.2") },
+    });
+    Object.assign(this, this.fixture);
+    this.client = new AuctionClient(await this.privateAuction.getAddress(), this.signers.fred, this.fhevm);
+  });
+
+  it(`Should settle and distribute ${BIDDERS} bids in batches within the FHE gas block limit`, async function () {
+    this.timeout(3_600_000);
+    const steps: Record<string, ContractTransactionReceipt[]> = { bid: [] };
+
+    // 1 to 5 tokens at 0.1 to 1.0, some bids fall below the reserve and many tie
+    for (let i = 0; i < BIDDERS; i++) {
+      const wallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)), ethers.provider);
+      await ethers.provider.send("hardhat_setBalance", [wallet.address, ethers.toBeHex(ethers.parseEther("10"))]);
+      const bidder = this.client.connect(wallet);
+      await bidder.lockFunds("5");
+      steps.bid.push(
+        await bidder.placeBid({ price: String((((i * 7) % 10) + 1) / 10), quantity: String(1 + (i % 5)) }),
+      );
+    }
+    await increaseTime(3601);
+
+    steps.settle = await this.client.settle(SETTLE_BATCH);
+    await awaitAllDecryptionResults();
+    expect(await this.client.getPhase()).to.equal(AuctionPhase.Decrypted);
+    steps.distribute = await this.client.distribute(DISTRIBUTE_BATCH);
+    expect(await this.client.getPhase()).to.equal(AuctionPhase.Distributed);
+
+    const report = Object.entries(steps).map(([step, receipts]) => {
+      const gas = receipts.map((receipt) => receipt.gasUsed);
+      const fheGas = receipts.map((receipt) => getFHEGasFromTxReceipt(receipt));
+      expect(Math.max(...fheGas)).to.be.at.most(FHE_GAS_BLOCK_LIMIT);
+      return {
+        step,
+        transactions: receipts.length,
+        totalGas: gas.reduce((a, b) => a + b, 0n),
+        totalFHEGas: fheGas.reduce((a, b) => a + b, 0),
+        maxFHEGas: Math.max(...fheGas),
+      };
+    });
+    if (BENCHMARK) console.table(report);
+
+    // The 100 tokens are sold, the clearing price is at or above the reserve
+    expect(await this.privateAuction.unsoldAssets()).to.equal(0);
+    expect(await this.privateAuction.settlementPrice()).to.be.at.least(ethers.parseEther("0.2"));
+    expect(steps.settle.length).to.equal(BIDDERS / SETTLE_BATCH);
+  });
+});
@@ -5,6 +5,7 @@ import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
 import { createInstance } from "../instance";
 import { reencryptEuint256 } from "../reencrypt";
 import { getSigners, initSigners } from "../signers";
+import { deployAuctionFactory, distributeFunds } from "./fixtures";
 
 describe("AuctionFactory and PrivateSinglePriceAuction", function () {
   describe("Successfull Scenario 1", function () {
@@ -31,9 +32,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
       await this.paymentToken.waitForDeployment();
 
       // Deploy AuctionFactory
-      const AuctionFactory = await ethers.getContractFactory("AuctionFactory");
-      this.auctionFactory = await AuctionFactory.connect(this.signers.alice).deploy();
-      await this.auctionFactory.waitForDeployment();
+      this.auctionFactory = await deployAuctionFactory(this.signers.alice);
 
       // Allowance of asset
       await this.asset.connect(this.signers.alice).transfer(this.signers.fred.address, ethers.parseEther("100"));
@@ -42,15 +41,27 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
         .approve(await this.auctionFactory.getAddress(), ethers.parseEther("100"));
 
       // Create an auction
-      await this.auctionFactory
-        .connect(this.signers.fred)
-        .createAuction(
-          await this.asset.getAddress(),
-          await this.paymentToken.getAddress(),
-          ethers.parseEther("100"),
-          this.duration,
-          50,
-        );
+      await this.auctionFactory.connect(this.signers.fred).createAuction(
+        {
+          asset: await this.asset.getAddress(),
+          paymentToken: await this.paymentToken.getAddress(),
+          confidentialPayment: false, // Plaintext ERC20 payment token
+          confidentialAsset: false, // Plaintext ERC20 asset
+          homomorphicClearing: false, // Bids decrypted at settlement
+          quantity: ethers.parseEther("100"),
+          startTime: 0,
+          duration: this.duration,
+          maxParticipant: 50,
+          tieBreaking: 0, // First come tie-breaking
+          extensionWindow: 0, // Bids never extend the auction
+          extensionDuration: 0,
+          maxExtension: 0,
+          allowlistRoot: ethers.ZeroHash, // Anyone can bid
+          pricing: 0, // Winners pay the clearing price
+        },
+        ethers.ZeroHash, // No reserve price
+        "0x",
+      );
       const auctionAddress = await this.auctionFactory.getAllAuctions();
       this.privateAuction = await ethers.getContractAt("PrivateSinglePriceAuction", auctionAddress[0]);
 
@@ -92,7 +103,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
       await this.paymentToken
         .connect(this.bidder1)
         .approve(await this.privateAuction.getAddress(), ethers.parseEther("100"));
-      await this.privateAuction.connect(this.bidder1).lockFunds(ethers.parseEther("50"));
+      await this.privateAuction.connect(this.bidder1).lockFunds(ethers.parseEther("50"), []);
 
       const lockedFundedBidder1 = await this.privateAuction.lockedFunds(this.bidder1.address);
 
@@ -111,10 +122,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder1)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -149,10 +161,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder2)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -181,7 +194,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
       await this.paymentToken
         .connect(this.bidder3)
         .approve(await this.privateAuction.getAddress(), ethers.parseEther("1000"));
-      await this.privateAuction.connect(this.bidder3).lockFunds(ethers.parseEther("1000"));
+      await this.privateAuction.connect(this.bidder3).lockFunds(ethers.parseEther("1000"), []);
 
       const lockedFundedBidder3 = await this.privateAuction.lockedFunds(this.bidder3.address);
 
@@ -196,10 +209,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder3)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -228,7 +242,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
       await this.paymentToken
         .connect(this.bidder4)
         .approve(await this.privateAuction.getAddress(), ethers.parseEther("250"));
-      await this.privateAuction.connect(this.bidder4).lockFunds(ethers.parseEther("250"));
+      await this.privateAuction.connect(this.bidder4).lockFunds(ethers.parseEther("250"), []);
 
       const lockedFundedBidder4 = await this.privateAuction.lockedFunds(this.bidder4.address);
 
@@ -243,10 +257,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder4)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -275,9 +290,12 @@ describe("AuctionFactory and PrivateSinglePriceAuction", function () {
       // Fast-forward the time to after the auction has ended
       await ethers.provider.send("evm_increaseTime", [this.duration + 1]);
       await ethers.provider.send("evm_mine", []);
-      await this.privateAuction.connect(this.signers.fred).settleAuction();
+      await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
       await awaitAllDecryptionResults();
-      await this.privateAuction.connect(this.signers.fred).distributeFunds();
+      await distributeFunds(this.privateAuction, this.signers.fred);
+      await this.privateAuction.connect(this.bidder1).claim();
+      await this.privateAuction.connect(this.bidder4).claim();
+      await this.privateAuction.connect(this.signers.fred).claimProceeds();
       expect(await this.privateAuction.settlementPrice()).to.be.equal(ethers.parseEther("1"));
       expect(await this.asset.balanceOf(this.bidder1)).to.be.equal(ethers.parseEther("20"));
       expect(await this.asset.balanceOf(this.bidder4)).to.be.equal(ethers.parseEther("80"));
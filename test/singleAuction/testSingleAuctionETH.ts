@@ -5,6 +5,7 @@ import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
 import { createInstance } from "../instance";
 import { reencryptEuint256 } from "../reencrypt";
 import { getSigners, initSigners } from "../signers";
+import { deployAuctionFactory, distributeFunds } from "./fixtures";
 
 describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
   describe("Successful Scenario 1", function () {
@@ -26,9 +27,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
       await this.asset.waitForDeployment();
 
       // Deploy AuctionFactory
-      const AuctionFactory = await ethers.getContractFactory("AuctionFactory");
-      this.auctionFactory = await AuctionFactory.connect(this.signers.alice).deploy();
-      await this.auctionFactory.waitForDeployment();
+      this.auctionFactory = await deployAuctionFactory(this.signers.alice);
 
       // Allowance of asset
       await this.asset.connect(this.signers.alice).transfer(this.signers.fred.address, ethers.parseEther("100"));
@@ -38,11 +37,25 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       // Create an auction (ETH is used as the payment token by passing address(0))
       await this.auctionFactory.connect(this.signers.fred).createAuction(
-        await this.asset.getAddress(),
-        ethers.ZeroAddress, // ETH as payment token
-        ethers.parseEther("100"),
-        this.duration,
-        50,
+        {
+          asset: await this.asset.getAddress(),
+          paymentToken: ethers.ZeroAddress, // ETH as payment token
+          confidentialPayment: false,
+          confidentialAsset: false,
+          homomorphicClearing: false,
+          quantity: ethers.parseEther("100"),
+          startTime: 0,
+          duration: this.duration,
+          maxParticipant: 50,
+          tieBreaking: 0, // First come tie-breaking
+          extensionWindow: 0, // Bids never extend the auction
+          extensionDuration: 0,
+          maxExtension: 0,
+          allowlistRoot: ethers.ZeroHash, // Anyone can bid
+          pricing: 0, // Winners pay the clearing price
+        },
+        ethers.ZeroHash, // No reserve price
+        "0x",
       );
       const auctionAddress = await this.auctionFactory.getAllAuctions();
       this.privateAuction = await ethers.getContractAt("PrivateSinglePriceAuction", auctionAddress[0]);
@@ -75,7 +88,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
       // Lock funds first (for this example, assume lockFunds method is correctly implemented)
       await this.privateAuction
         .connect(this.bidder1)
-        .lockFunds(ethers.parseEther("50"), { value: ethers.parseEther("50") });
+        .lockFunds(ethers.parseEther("50"), [], { value: ethers.parseEther("50") });
 
       const lockedFundedBidder1 = await this.privateAuction.lockedFunds(this.bidder1.address);
 
@@ -92,10 +105,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder1)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -130,10 +144,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder2)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -161,7 +176,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
     it("Should allow bidder3 to bid", async function () {
       await this.privateAuction
         .connect(this.bidder3)
-        .lockFunds(ethers.parseEther("1000"), { value: ethers.parseEther("1000") });
+        .lockFunds(ethers.parseEther("1000"), [], { value: ethers.parseEther("1000") });
 
       const lockedFundedBidder3 = await this.privateAuction.lockedFunds(this.bidder3.address);
 
@@ -176,10 +191,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder3)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -207,7 +223,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
     it("Should allow bidder4 to bid", async function () {
       await this.privateAuction
         .connect(this.bidder4)
-        .lockFunds(ethers.parseEther("250"), { value: ethers.parseEther("250") });
+        .lockFunds(ethers.parseEther("250"), [], { value: ethers.parseEther("250") });
 
       const lockedFundedBidder4 = await this.privateAuction.lockedFunds(this.bidder4.address);
 
@@ -222,10 +238,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder4)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -255,9 +272,12 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
       await ethers.provider.send("evm_increaseTime", [this.duration + 1]);
       await ethers.provider.send("evm_mine", []);
       let initialBalance = await ethers.provider.getBalance(this.signers.fred.address);
-      await this.privateAuction.connect(this.signers.fred).settleAuction();
+      await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
       await awaitAllDecryptionResults();
-      await this.privateAuction.connect(this.signers.fred).distributeFunds();
+      await distributeFunds(this.privateAuction, this.signers.fred);
+      await this.privateAuction.connect(this.bidder1).claim();
+      await this.privateAuction.connect(this.bidder4).claim();
+      await this.privateAuction.connect(this.signers.fred).claimProceeds();
       expect(await this.privateAuction.settlementPrice()).to.be.equal(ethers.parseEther("1"));
       expect(await this.asset.balanceOf(this.bidder1)).to.be.equal(ethers.parseEther("20"));
       expect(await this.asset.balanceOf(this.bidder4)).to.be.equal(ethers.parseEther("80"));
@@ -286,9 +306,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
       await this.asset.waitForDeployment();
 
       // Deploy AuctionFactory
-      const AuctionFactory = await ethers.getContractFactory("AuctionFactory");
-      this.auctionFactory = await AuctionFactory.connect(this.signers.alice).deploy();
-      await this.auctionFactory.waitForDeployment();
+      this.auctionFactory = await deployAuctionFactory(this.signers.alice);
 
       // Allowance of asset
       await this.asset.connect(this.signers.alice).transfer(this.signers.fred.address, ethers.parseEther("1000000"));
@@ -298,11 +316,25 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       // Create an auction (ETH is used as the payment token by passing address(0))
       await this.auctionFactory.connect(this.signers.fred).createAuction(
-        await this.asset.getAddress(),
-        ethers.ZeroAddress, // ETH as payment token
-        ethers.parseEther("1000000"),
-        this.duration,
-        50,
+        {
+          asset: await this.asset.getAddress(),
+          paymentToken: ethers.ZeroAddress, // ETH as payment token
+          confidentialPayment: false,
+          confidentialAsset: false,
+          homomorphicClearing: false,
+          quantity: ethers.parseEther("1000000"),
+          startTime: 0,
+          duration: this.duration,
+          maxParticipant: 50,
+          tieBreaking: 0, // First come tie-breaking
+          extensionWindow: 0, // Bids never extend the auction
+          extensionDuration: 0,
+          maxExtension: 0,
+          allowlistRoot: ethers.ZeroHash, // Anyone can bid
+          pricing: 0, // Winners pay the clearing price
+        },
+        ethers.ZeroHash, // No reserve price
+        "0x",
       );
       const auctionAddress = await this.auctionFactory.getAllAuctions();
       this.privateAuction = await ethers.getContractAt("PrivateSinglePriceAuction", auctionAddress[0]);
@@ -335,7 +367,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
       // Lock funds first (for this example, assume lockFunds method is correctly implemented)
       await this.privateAuction
         .connect(this.bidder1)
-        .lockFunds(ethers.parseEther("2"), { value: ethers.parseEther("2") });
+        .lockFunds(ethers.parseEther("2"), [], { value: ethers.parseEther("2") });
 
       const lockedFundedBidder1 = await this.privateAuction.lockedFunds(this.bidder1.address);
 
@@ -352,10 +384,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder1)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -390,10 +423,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder2)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -421,7 +455,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
     it("Should allow bidder3 to bid", async function () {
       await this.privateAuction
         .connect(this.bidder3)
-        .lockFunds(ethers.parseEther("5"), { value: ethers.parseEther("5") });
+        .lockFunds(ethers.parseEther("5"), [], { value: ethers.parseEther("5") });
 
       const lockedFundedBidder3 = await this.privateAuction.lockedFunds(this.bidder3.address);
 
@@ -436,10 +470,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder3)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -467,7 +502,7 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
     it("Should allow bidder4 to bid", async function () {
       await this.privateAuction
         .connect(this.bidder4)
-        .lockFunds(ethers.parseEther("0.1"), { value: ethers.parseEther("0.1") });
+        .lockFunds(ethers.parseEther("0.1"), [], { value: ethers.parseEther("0.1") });
 
       const lockedFundedBidder4 = await this.privateAuction.lockedFunds(this.bidder4.address);
 
@@ -482,10 +517,11 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
 
       const tx = await this.privateAuction
         .connect(this.bidder4)
-        ["placeEncryptedBid(bytes32,bytes32,bytes)"](
+        ["placeEncryptedBid(bytes32,bytes32,bytes,bytes32[])"](
           encryptedAmount.handles[0],
           encryptedAmount.handles[1],
           encryptedAmount.inputProof,
+          [],
         );
       const t2 = await tx.wait();
       expect(t2?.status).to.eq(1);
@@ -515,9 +551,12 @@ describe("AuctionFactory and PrivateSinglePriceAuction with ETH", function () {
       await ethers.provider.send("evm_increaseTime", [this.duration + 1]);
       await ethers.provider.send("evm_mine", []);
       let initialBalance = await ethers.provider.getBalance(this.signers.fred.address);
-      await this.privateAuction.connect(this.signers.fred).settleAuction();
+      await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
       await awaitAllDecryptionResults();
-      await this.privateAuction.connect(this.signers.fred).distributeFunds();
+      await distributeFunds(this.privateAuction, this.signers.fred);
+      await this.privateAuction.connect(this.bidder1).claim();
+      await this.privateAuction.connect(this.bidder3).claim();
+      await this.privateAuction.connect(this.signers.fred).claimProceeds();
       expect(await this.privateAuction.settlementPrice()).to.be.equal(ethers.parseEther("0.000002"));
       expect(await this.asset.balanceOf(this.bidder1)).to.be.equal(ethers.parseEther("400000"));
       expect(await this.asset.balanceOf(this.bidder3)).to.be.equal(ethers.parseEther("600000"));
@@ -0,0 +1,106 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { TieBreaking } from "../../src/sdk";
+import { awaitAllDecryptionResults, initGateway } from "../asyncDecrypt";
+import { createInstance } from "../instance";
+import { getSigners, initSigners } from "../signers";
+import { deployAuctionFixture, distributeFunds, increaseTime, lockFunds, placeBid } from "./fixtures";
+
+describe("PrivateSinglePriceAuction tie-breaking", function () {
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+    this.fhevm = await createInstance();
+    await initGateway();
+  });
+
+  // bob 40 @ 3 is filled, then carol 30 @ 2, dave 40 @ 2 and eve 20 @ 2 compete for the 60 tokens left
+  const bidAndSettle = async function (this: Mocha.Context) {
+    for (const [bidder, quantity, price] of [
+      [this.signers.bob, "40", "3"],
+      [this.signers.carol, "30", "2"],
+      [this.signers.dave, "40", "2"],
+      [this.signers.eve, "20", "2"],
+    ] as const) {
+      await lockFunds(this.fixture, bidder, ethers.parseEther("200"));
+      await placeBid(this.fhevm, this.privateAuction, bidder, ethers.parseEther(quantity), ethers.parseEther(price));
+    }
+    await increaseTime(61);
+    await this.privateAuction.connect(this.signers.fred).settleAuction(0, 50);
+    await awaitAllDecryptionResults();
+    await distributeFunds(this.privateAuction, this.signers.fred);
+
+    expect(await this.privateAuction.settlementPrice()).to.equal(ethers.parseEther("2"));
+    expect(await this.privateAuction.claimableAsset(this.signers.bob)).to.equal(ethers.parseEther("40"));
+    expect(await this.privateAuction.unsoldAssets()).to.equal(0);
+  };
+
+  const tiedAllocations = async function (this: Mocha.Context) {
+    return Promise.all(
+      [this.signers.carol, this.signers.dave, this.signers.eve].map((bidder) =>
+        this.privateAuction.claimableAsset(bidder),
+      ),
+    );
+  };
+
+  describe("First come", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers);
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should fill the tied bids in bidding order", async function () {
+      expect(await this.privateAuction.tieBreaking()).to.equal(TieBreaking.FirstCome);
+      await bidAndSettle.call(this);
+
+      expect(await tiedAllocations.call(this)).to.deep.equal([ethers.parseEther("30"), ethers.parseEther("30"), 0n]);
+    });
+  });
+
+  describe("Pro-rata", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { tieBreaking: TieBreaking.ProRata });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should share the supply in proportion to the quantity bid", async function () {
+      expect(await this.privateAuction.tieBreaking()).to.equal(TieBreaking.ProRata);
+      await bidAndSettle.call(this);
+
+      // 60 / 90 of each bid, rounded on the cumulative quantity so the last bid gets the wei left
+      expect(await tiedAllocations.call(this)).to.deep.equal([
+        ethers.parseEther("20"),
+        26666666666666666666n,
+        13333333333333333334n,
+      ]);
+      expect(await this.privateAuction.claimableRefund(this.signers.carol)).to.equal(ethers.parseEther("160"));
+    });
+  });
+
+  describe("Random", function () {
+    before(async function () {
+      this.fixture = await deployAuctionFixture(this.signers, { tieBreaking: TieBreaking.Random });
+      Object.assign(this, this.fixture);
+    });
+
+    it("Should wait for the random seed before allowing the distribution", async function () {
+      expect(await this.privateAuction.tieBreaking()).to.equal(TieBreaking.Random);
+      await bidAndSettle.call(this);
+
+      // One request per bid plus the random seed
+      expect(await this.privateAuction.decryptedCount()).to.equal(5);
+      expect(await this.privateAuction.checkAllDecrypted()).to.equal(true);
+    });
+
+    it("Should fill the tied bids in a random order", async function () {
+      const bidQuantities = [ethers.parseEther("30"), ethers.parseEther("40"), ethers.parseEther("20")];
+      const allocations: bigint[] = await tiedAllocations.call(this);
+
+      expect(allocations.reduce((total, allocation) => total + allocation, 0n)).to.equal(ethers.parseEther("60"));
+      // Filling in order leaves at most one bid partially filled
+      const partials = allocations.filter((allocation, i) => allocation > 0n && allocation < bidQuantities[i]);
+      expect(partials.length).to.be.at.most(1);
+    });
+  });
+});